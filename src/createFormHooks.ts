@@ -0,0 +1,92 @@
+import type { PathOf } from 'use-watcher-map';
+import type { PathValue } from './types';
+import {
+  ControlledField,
+  Field,
+  FieldOptions,
+  useControlledField,
+  useField,
+} from './useField';
+import { FieldAriaOptions, FieldAriaProps, useFieldAria } from './useFieldAria';
+import { FieldArray, useFieldArray } from './useFieldArray';
+import type { WatcherForm } from './useWatcherForm';
+import { useWatcherFormCtx } from './WatcherFormCtx';
+
+/** the paths of `T` whose value is an array */
+export type ArrayPathOf<T extends Record<string, any>> = {
+  [P in PathOf<Partial<T>>]: NonNullable<PathValue<T, P>> extends readonly any[]
+    ? P
+    : never;
+}[PathOf<Partial<T>>];
+
+/** the type of the items of an array */
+type ArrayItem<A> = A extends readonly (infer Item)[] ? Item : never;
+
+/** the value at a path of the form values, which are `Partial<T>` */
+type FieldValue<T, P extends string> = PathValue<T, P> | undefined;
+
+export interface FormHooks<T extends Record<string, any>> {
+  /**
+   * `useField`, with the path checked against `T`. `defaultValue` and
+   * `onChange` are typed from the value at the path, or from `format` and
+   * `parse` if given.
+   */
+  useField: <P extends PathOf<Partial<T>>, I = FieldValue<T, P>>(
+    path: P,
+    opts?: FieldOptions<FieldValue<T, P>, I>
+  ) => Field<I>;
+  /**
+   * `useControlledField`, with the path checked against `T`. `value` and
+   * `onChange` are typed from the value at the path, or from `format` and
+   * `parse` if given.
+   */
+  useControlledField: <P extends PathOf<Partial<T>>, I = FieldValue<T, P>>(
+    path: P,
+    opts?: FieldOptions<FieldValue<T, P>, I>
+  ) => ControlledField<I>;
+  /** `useFieldAria`, with the path checked against `T` */
+  useFieldAria: (
+    path: PathOf<Partial<T>>,
+    opts?: FieldAriaOptions
+  ) => FieldAriaProps;
+  /**
+   * `useFieldArray`, with the path checked against the array paths of `T`.
+   * The items are typed from the array.
+   */
+  useFieldArray: <P extends ArrayPathOf<T>>(
+    path: P
+  ) => FieldArray<ArrayItem<NonNullable<PathValue<T, P>>>>;
+  /** `useWatcherFormCtx`, typed as `WatcherForm<T>` */
+  useWatcherFormCtx: () => WatcherForm<T>;
+}
+
+/**
+ * Create `useField`, `useControlledField`, `useFieldAria`, `useFieldArray`
+ * and `useWatcherFormCtx` hooks typed for the form values `T`.
+ *
+ * Paths are checked at compile time, and values are typed from the value at
+ * the path. The hooks are the same functions as the untyped exports, so they
+ * can be mixed freely.
+ *
+ * @example
+ * interface User {
+ *   name: string;
+ *   age: number;
+ *   address: { street: string };
+ * }
+ *
+ * export const { useField, useControlledField } = createFormHooks<User>();
+ *
+ * useField('address.street'); // defaultValue: string | undefined
+ * useField('adress.street'); // type error
+ * useControlledField('age', asNumber); // value: any, from asNumber
+ */
+export const createFormHooks = <
+  T extends Record<string, any>,
+>(): FormHooks<T> => ({
+  useField: useField as FormHooks<T>['useField'],
+  useControlledField: useControlledField as FormHooks<T>['useControlledField'],
+  useFieldAria,
+  useFieldArray: useFieldArray as FormHooks<T>['useFieldArray'],
+  useWatcherFormCtx: useWatcherFormCtx<T>,
+});
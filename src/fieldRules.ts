@@ -0,0 +1,110 @@
+import type { MaybePromise } from './types';
+import { isPromiseLike } from './utils';
+
+/** A rule value, optionally paired with a custom error message. */
+export type RuleWithMessage<V> = V | { value: V; message: string };
+
+/**
+ * Declarative validation rules for a single field, registered with the form
+ * by `useField`/`useControlledField` while the field is mounted.
+ */
+export interface FieldRules {
+  /**
+   * Require a non-empty value, or a checked checkbox (`false` is empty). Pass
+   * a string to use a custom message.
+   */
+  required?: boolean | string;
+  /** Minimum numeric value. A value that isn't a number fails. */
+  min?: RuleWithMessage<number>;
+  /** Maximum numeric value. A value that isn't a number fails. */
+  max?: RuleWithMessage<number>;
+  /** Minimum length of a string or array value. */
+  minLength?: RuleWithMessage<number>;
+  /** Regular expression a string value must match. */
+  pattern?: RuleWithMessage<RegExp>;
+  /**
+   * Custom validation for the field. Return an error message, or
+   * `undefined`/`null` if valid. May be async.
+   */
+  validate?: (
+    value: any,
+    values: Record<string, any>
+  ) => MaybePromise<string | null | undefined>;
+}
+
+const RULE_KEYS: (keyof FieldRules)[] = [
+  'required',
+  'min',
+  'max',
+  'minLength',
+  'pattern',
+  'validate',
+];
+
+export const hasFieldRules = (rules: FieldRules | undefined) =>
+  !!rules && RULE_KEYS.some(key => rules[key] !== undefined);
+
+// checkboxes store whether they're checked, so unchecked is empty
+const isEmpty = (value: any) =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  value === false ||
+  (Array.isArray(value) && value.length === 0);
+
+const unwrap = <V>(
+  rule: RuleWithMessage<V>,
+  defaultMessage: (value: V) => string
+): { value: V; message: string } =>
+  typeof rule === 'object' && rule !== null && 'value' in rule
+    ? rule
+    : { value: rule as V, message: defaultMessage(rule as V) };
+
+/**
+ * Run the field rules against a value. Built-in rules are checked in order
+ * (required, min, max, minLength, pattern) and the first failure is returned.
+ * `validate` only runs once the built-in rules pass.
+ *
+ * Returns a Promise only if `validate` is async.
+ */
+export const validateFieldRules = (
+  rules: FieldRules,
+  value: any,
+  values: Record<string, any>
+): MaybePromise<string | undefined> => {
+  if (isEmpty(value)) {
+    if (rules.required) {
+      return typeof rules.required === 'string' ? rules.required : 'Required';
+    }
+  } else {
+    // NaN fails both comparisons, so check for it explicitly
+    const number = Number(value);
+    if (rules.min !== undefined) {
+      const min = unwrap(rules.min, v => `Must be at least ${v}`);
+      if (Number.isNaN(number) || number < min.value) return min.message;
+    }
+    if (rules.max !== undefined) {
+      const max = unwrap(rules.max, v => `Must be at most ${v}`);
+      if (Number.isNaN(number) || number > max.value) return max.message;
+    }
+    if (rules.minLength !== undefined) {
+      const minLength = unwrap(
+        rules.minLength,
+        v => `Must be at least ${v} characters`
+      );
+      const length = Array.isArray(value) ? value.length : String(value).length;
+      if (length < minLength.value) return minLength.message;
+    }
+    if (rules.pattern !== undefined) {
+      const pattern = unwrap(rules.pattern, () => 'Invalid format');
+      if (!pattern.value.test(String(value))) return pattern.message;
+    }
+  }
+
+  if (!rules.validate) return undefined;
+
+  const result = rules.validate(value, values);
+  return isPromiseLike(result)
+    ? Promise.resolve(result).then(error => error || undefined)
+    : result || undefined;
+};
@@ -1,10 +1,67 @@
-export type { PRecord, PRecordErrors, ValidationResult } from './types';
+export type {
+  DeepRecord,
+  MaybePromise,
+  PathValue,
+  PRecord,
+  PRecordErrors,
+  ReValidateMode,
+  ValidationMode,
+  ValidationResult,
+  Validator,
+} from './types';
+
+export { schemaValidator, issuesToErrors } from './schemaValidator';
+export type { StandardSchemaV1 } from './schemaValidator';
+
+export type { Draft, DraftStorage, PersistOptions } from './persist';
+
+export type {
+  ServerErrorItem,
+  ServerErrors,
+  ServerErrorsResult,
+} from './serverErrors';
 
 export { useField, useControlledField } from './useField';
-export type { Field, ControlledField } from './useField';
+export type { Field, ControlledField, FieldOptions } from './useField';
+
+export { useFieldAria } from './useFieldAria';
+export type { FieldAriaOptions, FieldAriaProps } from './useFieldAria';
+
+export type { FieldRules, RuleWithMessage } from './fieldRules';
+
+export {
+  asDate,
+  asInteger,
+  asNumber,
+  asTrimmed,
+  emptyToNull,
+} from './transforms';
+export type { FieldTransform } from './transforms';
+
+export { customEventExtractor, optionExtractor } from './inputValue';
+export type { ValueExtractor } from './inputValue';
+
+export { createFormHooks } from './createFormHooks';
+export type { ArrayPathOf, FormHooks } from './createFormHooks';
+
+export { useFieldArray } from './useFieldArray';
+export type { FieldArray, FieldArrayItem } from './useFieldArray';
+
+export { useWatch } from './useWatch';
+export type { WatchState } from './useWatch';
 
 export { useWatcherForm } from './useWatcherForm';
-export type { WatcherFormProps, WatcherForm } from './useWatcherForm';
+export type {
+  ComputedField,
+  FieldConflict,
+  HistoryOptions,
+  InputEventHandlerOptions,
+  SyncMode,
+  TabSyncOptions,
+  WatchSource,
+  WatcherFormProps,
+  WatcherForm,
+} from './useWatcherForm';
 
 export { useWatcherFormCtx, WatcherFormCtx } from './WatcherFormCtx';
 
@@ -0,0 +1,149 @@
+/**
+ * Read the value of a form element, based on its type:
+ * - checkboxes: `checked`
+ * - number and range inputs: `valueAsNumber`, or `undefined` if empty
+ * - file inputs: the selected files as a `File[]`
+ * - multiple selects: the values of the selected options
+ * - everything else: `value`, eg. `YYYY-MM-DD` for date inputs, which
+ *   `asDate` stores as a `Date`
+ */
+export const getElementValue = (target: any): any => {
+  if (target.tagName === 'SELECT' && target.multiple) {
+    const selected = target.selectedOptions
+      ? Array.from(target.selectedOptions)
+      : Array.from(target.options ?? []).filter(
+          (option: any) => option.selected
+        );
+    return selected.map((option: any) => option.value);
+  }
+
+  switch (target.type) {
+    case 'checkbox':
+      return Boolean(target.checked);
+    case 'number':
+    case 'range': {
+      const number =
+        typeof target.valueAsNumber === 'number'
+          ? target.valueAsNumber
+          : target.value === ''
+            ? NaN
+            : Number(target.value);
+      return Number.isNaN(number) ? undefined : number;
+    }
+    case 'file':
+      return Array.from(target.files ?? []);
+    default:
+      return target.value;
+  }
+};
+
+/**
+ * Write a value into a form element, the reverse of `getElementValue`. The
+ * element is only updated if its value differs, to keep the caret position.
+ */
+export const setElementValue = (target: any, value: any) => {
+  if (target.tagName === 'SELECT' && target.multiple) {
+    const selected = (Array.isArray(value) ? value : [value]).map(String);
+    for (const option of Array.from(target.options ?? []) as any[]) {
+      option.selected = selected.includes(option.value);
+    }
+    return;
+  }
+
+  switch (target.type) {
+    case 'checkbox':
+      target.checked = Boolean(value);
+      return;
+    case 'radio':
+      target.checked = value != null && target.value === String(value);
+      return;
+    case 'file':
+      // files can't be set, only cleared
+      if (!value || (Array.isArray(value) && value.length === 0)) {
+        target.value = '';
+      }
+      return;
+  }
+
+  const next =
+    value instanceof Date
+      ? Number.isNaN(value.getTime())
+        ? ''
+        : value.toISOString().slice(0, 10)
+      : String(value ?? '');
+  if (target.value !== next) target.value = next;
+};
+
+/**
+ * Read the value from an `onChange` argument. Events are read with
+ * `getElementValue`, or from `e.target.value` if `detectInputType` is false.
+ * Anything that isn't an event, or an event without a target, is returned
+ * as-is.
+ */
+export const getEventValue = (
+  e: any,
+  opts?: { detectInputType?: boolean }
+): any => {
+  if (typeof e !== 'object' || e === null || !('target' in e)) return e;
+  // eg. a CustomEvent that hasn't been dispatched
+  if (typeof e.target !== 'object' || e.target === null) return e;
+  if (opts?.detectInputType === false) return e.target.value;
+  return getElementValue(e.target);
+};
+
+/**
+ * Turns a change payload into the value to store, eg. for third-party
+ * components that call `onChange(option, meta)` or fire a `CustomEvent`.
+ * `test` and `extract` receive all of the arguments passed to `onChange`.
+ */
+export interface ValueExtractor {
+  /** whether this extractor handles the payload */
+  test: (payload: any, ...args: any[]) => boolean;
+  /** the value to store for the payload */
+  extract: (payload: any, ...args: any[]) => any;
+}
+
+const isOption = (value: any) =>
+  typeof value === 'object' &&
+  value !== null &&
+  'value' in value &&
+  'label' in value;
+
+/**
+ * Store the `detail` of a `CustomEvent`, eg. from a web component.
+ */
+export const customEventExtractor: ValueExtractor = {
+  test: payload =>
+    typeof CustomEvent !== 'undefined' && payload instanceof CustomEvent,
+  extract: payload => payload.detail,
+};
+
+/**
+ * Store the `value` of a `{ value, label }` option, or the values of an array
+ * of options, eg. from a react-select style combobox.
+ */
+export const optionExtractor: ValueExtractor = {
+  test: payload =>
+    isOption(payload) ||
+    (Array.isArray(payload) && payload.length > 0 && payload.every(isOption)),
+  extract: payload =>
+    Array.isArray(payload)
+      ? payload.map(option => option.value)
+      : payload.value,
+};
+
+/**
+ * Read the value from the arguments passed to `onChange`, with the first
+ * matching extractor, or with `getEventValue` if none match.
+ */
+export const extractValue = (
+  args: any[],
+  opts?: { detectInputType?: boolean; extractors?: ValueExtractor[] }
+): any => {
+  const [payload, ...rest] = args;
+  const extractor = opts?.extractors?.find(({ test }) =>
+    test(payload, ...rest)
+  );
+  if (extractor) return extractor.extract(payload, ...rest);
+  return getEventValue(payload, opts);
+};
@@ -0,0 +1,184 @@
+import { getDeepPath } from 'use-watcher-map';
+import { omitDeepPath, setDeepPath } from './utils';
+
+/** The values and changes saved in a draft. */
+export interface Draft<T extends Record<string, any>> {
+  values: Partial<T>;
+  changes: Partial<T>;
+}
+
+/** Where drafts are saved, eg. `localStorage` or a custom store. */
+export type DraftStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+/**
+ * Options for saving the form's edits as a draft, so that they survive a
+ * reload. Values are saved as JSON, so Dates are restored as strings unless
+ * the field has a `parse` that handles them.
+ */
+export interface PersistOptions<T extends Record<string, any>> {
+  /** the storage key of the draft, unique to the form */
+  key: string;
+  /**
+   * `'local'` for `localStorage`, `'session'` for `sessionStorage`, or a
+   * custom storage.
+   * @default 'local'
+   */
+  storage?: 'local' | 'session' | DraftStorage;
+  /**
+   * The version of the draft's shape. Increment it when the form values
+   * change shape, drafts with an older version are passed to `migrate`.
+   * @default 0
+   */
+  version?: number;
+  /**
+   * Upgrade a draft saved with an older `version`. Return `undefined` to
+   * discard it. Without `migrate`, older drafts are discarded.
+   */
+  migrate?: (draft: Draft<any>, version: number) => Draft<T> | undefined;
+  /**
+   * How long to wait after the last edit before saving.
+   * @default 500
+   */
+  debounceMs?: number;
+  /** only save the fields at these paths, and the fields nested under them */
+  include?: string[];
+  /** don't save the fields at these paths, eg. passwords */
+  exclude?: string[];
+}
+
+/** the shape of a draft in storage */
+interface StoredDraft {
+  version: number;
+  values: any;
+  changes: any;
+}
+
+const getStorage = (
+  storage: PersistOptions<any>['storage']
+): DraftStorage | undefined => {
+  if (typeof storage === 'object') return storage;
+  try {
+    // storage is missing during SSR, and throws when it's disabled
+    return storage === 'session'
+      ? globalThis.sessionStorage
+      : globalThis.localStorage;
+  } catch {
+    return undefined;
+  }
+};
+
+/** Keep only the included paths, then drop the excluded paths. */
+const filterPaths = (
+  obj: any,
+  include: string[] | undefined,
+  exclude: string[] | undefined
+) => {
+  let filtered = obj ?? {};
+  if (include) {
+    filtered = {};
+    for (const path of include) {
+      const value = getDeepPath(obj, path.split('.'));
+      if (value !== undefined) {
+        filtered = setDeepPath(filtered, path.split('.'), value);
+      }
+    }
+  }
+  for (const path of exclude ?? []) {
+    filtered = omitDeepPath(filtered, path.split('.'));
+  }
+  return filtered;
+};
+
+/**
+ * Read the draft from storage, migrating it from an older version. Drafts
+ * that can't be read or migrated are removed.
+ */
+export const readDraft = <T extends Record<string, any>>(
+  opts: PersistOptions<T>
+): Draft<T> | undefined => {
+  const version = opts.version ?? 0;
+  let draft: Draft<T> | undefined;
+  try {
+    const json = getStorage(opts.storage)?.getItem(opts.key);
+    if (!json) return undefined;
+    const stored: StoredDraft = JSON.parse(json);
+    draft = { values: stored.values ?? {}, changes: stored.changes ?? {} };
+    if (stored.version !== version) {
+      draft =
+        stored.version < version && opts.migrate
+          ? opts.migrate(draft, stored.version)
+          : undefined;
+    }
+  } catch {
+    draft = undefined;
+  }
+
+  if (!draft) {
+    removeDraft(opts);
+    return undefined;
+  }
+  return {
+    values: filterPaths(draft.values, opts.include, opts.exclude),
+    changes: filterPaths(draft.changes, opts.include, opts.exclude),
+  };
+};
+
+/** Save the draft, or remove it if there are no changes to save. */
+export const writeDraft = <T extends Record<string, any>>(
+  opts: PersistOptions<T>,
+  draft: Draft<T>
+) => {
+  const changes = filterPaths(draft.changes, opts.include, opts.exclude);
+  if (Object.keys(changes).length === 0) {
+    removeDraft(opts);
+    return;
+  }
+  const stored: StoredDraft = {
+    version: opts.version ?? 0,
+    values: filterPaths(draft.values, opts.include, opts.exclude),
+    changes,
+  };
+  try {
+    getStorage(opts.storage)?.setItem(opts.key, JSON.stringify(stored));
+  } catch {
+    // the storage is full or disabled, the draft just isn't saved
+  }
+};
+
+export const removeDraft = (opts: PersistOptions<any>) => {
+  try {
+    getStorage(opts.storage)?.removeItem(opts.key);
+  } catch {
+    // the storage is disabled, so there is no draft
+  }
+};
+
+/**
+ * The edited fields of a draft, as `[path, value]` pairs to set on top of the
+ * initial values. Arrays are restored whole if their length differs from the
+ * initial value, otherwise only the edited items are restored.
+ */
+export const getDraftEdits = (
+  draft: Draft<any>,
+  initialValues: any
+): [path: string, value: any][] => {
+  const edits: [string, any][] = [];
+  const walk = (changes: any, segments: string[]) => {
+    const draftValue = getDeepPath(draft.values, segments);
+    const isNested = typeof changes === 'object' && changes !== null;
+    const isResized =
+      Array.isArray(draftValue) &&
+      getDeepPath(initialValues, segments)?.length !== draftValue.length;
+    if (segments.length > 0 && (!isNested || isResized)) {
+      edits.push([segments.join('.'), draftValue]);
+      return;
+    }
+    for (const [key, value] of Object.entries(changes)) {
+      // JSON turns the holes of sparse arrays into nulls
+      if (Array.isArray(changes) && value === null) continue;
+      walk(value, [...segments, key]);
+    }
+  };
+  walk(draft.changes ?? {}, []);
+  return edits;
+};
@@ -0,0 +1,90 @@
+import type { PRecordErrors, Validator } from './types';
+import { isPromiseLike, setDeepPath } from './utils';
+
+/**
+ * The subset of the Standard Schema v1 interface used by `schemaValidator`.
+ * Implemented by zod, valibot, arktype and others.
+ *
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) =>
+      | StandardSchemaV1.Result<Output>
+      | Promise<StandardSchemaV1.Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+export declare namespace StandardSchemaV1 {
+  type Result<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<Issue> };
+
+  interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  interface PathSegment {
+    readonly key: PropertyKey;
+  }
+}
+
+/**
+ * Convert a Standard Schema issue path into path segments, eg.
+ * `['items', 0, { key: 'qty' }]` becomes `['items', '0', 'qty']`.
+ */
+const issuePath = (issue: StandardSchemaV1.Issue): string[] =>
+  (issue.path ?? []).map(segment =>
+    String(
+      typeof segment === 'object' && segment !== null && 'key' in segment
+        ? segment.key
+        : segment
+    )
+  );
+
+/**
+ * Convert a list of Standard Schema issues into the nested errors shape.
+ * Only the first issue for each path is kept. Issues without a path are
+ * ignored, as there is no field to attach them to.
+ */
+export const issuesToErrors = <T extends Record<string, any>>(
+  issues: ReadonlyArray<StandardSchemaV1.Issue> | undefined
+): PRecordErrors<T> => {
+  let errors: any = {};
+  const seen = new Set<string>();
+  for (const issue of issues ?? []) {
+    const path = issuePath(issue);
+    const key = path.join('.');
+    if (path.length === 0 || seen.has(key)) continue;
+    seen.add(key);
+    errors = setDeepPath(errors, path, issue.message);
+  }
+  return errors;
+};
+
+/**
+ * Create a `validator` from any schema that implements Standard Schema v1
+ * (eg. zod, valibot, arktype). Async schemas return a Promise.
+ *
+ * @example
+ * const form = useWatcherForm<User>({
+ *   initialValues,
+ *   validator: schemaValidator(userSchema),
+ * });
+ */
+export const schemaValidator =
+  <T extends Record<string, any>>(schema: StandardSchemaV1): Validator<T> =>
+  values => {
+    const result = schema['~standard'].validate(values);
+    return isPromiseLike<StandardSchemaV1.Result<unknown>>(result)
+      ? Promise.resolve(result).then(resolved =>
+          issuesToErrors<T>(resolved.issues)
+        )
+      : issuesToErrors<T>(result.issues);
+  };
@@ -0,0 +1,74 @@
+import { getDeepPath } from 'use-watcher-map';
+import type { PRecordErrors } from './types';
+import { setDeepPath } from './utils';
+
+/** A single server-side error. An empty or missing path is a form error. */
+export interface ServerErrorItem {
+  path?: string;
+  message: string;
+}
+
+/**
+ * Server-side errors, either in the nested errors shape, or as a list of
+ * `{ path, message }` items.
+ *
+ * @example
+ * { email: 'already registered', address: { zip: 'unknown zip code' } }
+ *
+ * @example
+ * [
+ *   { path: 'email', message: 'already registered' },
+ *   { message: 'Your session has expired' },
+ * ]
+ */
+export type ServerErrors<T extends Record<string, any>> =
+  | PRecordErrors<T>
+  | ServerErrorItem[];
+
+/**
+ * Returned from `onSubmit` to reject the submission with server errors.
+ *
+ * @example
+ * onSubmit: async values => {
+ *   const res = await api.save(values);
+ *   if (!res.ok) return { serverErrors: res.errors };
+ *   return res;
+ * }
+ */
+export interface ServerErrorsResult<T extends Record<string, any>> {
+  serverErrors: ServerErrors<T>;
+}
+
+export const isServerErrorsResult = <T extends Record<string, any>>(
+  value: unknown
+): value is ServerErrorsResult<T> =>
+  typeof value === 'object' &&
+  value !== null &&
+  'serverErrors' in value &&
+  !!(value as ServerErrorsResult<T>).serverErrors;
+
+/**
+ * Split server errors into field errors (in the nested errors shape) and a
+ * form-level error message.
+ */
+export const normalizeServerErrors = <T extends Record<string, any>>(
+  input: ServerErrors<T>
+): { fieldErrors: PRecordErrors<T>; formError?: string } => {
+  if (!Array.isArray(input)) return { fieldErrors: input };
+
+  let fieldErrors: any = {};
+  let formError: string | undefined;
+  for (const item of input) {
+    if (!item.path) {
+      formError ??= item.message;
+    } else if (!getDeepPath(fieldErrors, item.path.split('.'))) {
+      // keep the first error for each path
+      fieldErrors = setDeepPath(
+        fieldErrors,
+        item.path.split('.'),
+        item.message
+      );
+    }
+  }
+  return { fieldErrors, formError };
+};
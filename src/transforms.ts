@@ -0,0 +1,85 @@
+/**
+ * Converts values between the input and the form state.
+ * - `parse` turns the raw input value into the stored value
+ * - `format` turns the stored value into the value shown in the input
+ */
+export interface FieldTransform<Stored = any, Input = any> {
+  parse?: (value: Input) => Stored;
+  format?: (value: Stored) => Input;
+}
+
+const isBlank = (value: any) =>
+  value === undefined || value === null || value === '';
+
+/** Show `null`/`undefined` as an empty input. */
+const formatBlank = (value: any) => value ?? '';
+
+/**
+ * Store the input as a number, or `undefined` if it's empty or not a number.
+ *
+ * @example
+ * useField('price', asNumber)
+ */
+export const asNumber: FieldTransform<number | undefined> = {
+  parse: value => {
+    if (isBlank(value)) return undefined;
+    const number = Number(value);
+    return Number.isNaN(number) ? undefined : number;
+  },
+  format: formatBlank,
+};
+
+/**
+ * Store the input as an integer, or `undefined` if it's empty or not a number.
+ *
+ * @example
+ * useField('quantity', asInteger)
+ */
+export const asInteger: FieldTransform<number | undefined> = {
+  parse: value => {
+    if (isBlank(value)) return undefined;
+    const number = parseInt(value, 10);
+    return Number.isNaN(number) ? undefined : number;
+  },
+  format: formatBlank,
+};
+
+/**
+ * Store the input with leading and trailing whitespace removed.
+ *
+ * @example
+ * useField('name', asTrimmed)
+ */
+export const asTrimmed: FieldTransform<string> = {
+  parse: value => (typeof value === 'string' ? value.trim() : value),
+};
+
+/**
+ * Store a date input (`YYYY-MM-DD`) as a `Date`, or `undefined` if it's empty
+ * or invalid. Dates are shown as `YYYY-MM-DD` (UTC).
+ *
+ * @example
+ * useField('birthday', asDate)
+ */
+export const asDate: FieldTransform<Date | undefined> = {
+  parse: value => {
+    if (isBlank(value)) return undefined;
+    const date = value instanceof Date ? value : new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  },
+  format: value =>
+    value instanceof Date && !Number.isNaN(value.getTime())
+      ? value.toISOString().slice(0, 10)
+      : '',
+};
+
+/**
+ * Store an empty input as `null`.
+ *
+ * @example
+ * useField('middleName', emptyToNull)
+ */
+export const emptyToNull: FieldTransform = {
+  parse: value => (value === '' ? null : value),
+  format: formatBlank,
+};
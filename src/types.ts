@@ -21,6 +21,49 @@ export type PRecord<T extends Record<string, any>, ValueType> = Partial<
   Record<Extract<keyof T, string>, ValueType>
 >;
 
+/** values that are stored whole, rather than as nested records */
+type DeepRecordLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | Date
+  | Blob
+  | ((...args: any[]) => any);
+
+/** the value of a DeepRecord for a field of type T */
+type DeepRecordValue<T, ValueType> =
+  NonNullable<T> extends DeepRecordLeaf
+    ? ValueType
+    : NonNullable<T> extends readonly (infer Item)[]
+      ? ValueType | (DeepRecordValue<Item, ValueType> | undefined)[]
+      : NonNullable<T> extends Record<string, any>
+        ? ValueType | DeepRecord<NonNullable<T>, ValueType>
+        : ValueType;
+
+/**
+ * DeepRecord is like PRecord, but mirrors nested objects and arrays, so that
+ * nested paths such as `address.street` and `items.0.qty` are typed.
+ *
+ * @example
+ *
+ * interface MyType = {
+ *   address: { street: string };
+ *   items: { qty: number }[];
+ * }
+ *
+ * type Touched = DeepRecord<MyType, boolean>;
+ *
+ * const touched: Touched = {
+ *   address: { street: true },
+ *   items: [{ qty: true }],
+ * }
+ */
+export type DeepRecord<T extends Record<string, any>, ValueType> = {
+  [K in Extract<keyof T, string>]?: DeepRecordValue<T[K], ValueType>;
+};
+
 export type ValidationResult =
   | { [key: string]: ValidationResult }
   | string
@@ -43,7 +86,66 @@ export type ValidationResult =
  *
  * anything value of undefined or null will be taken as a non-error
  */
-export type PRecordErrors<T extends Record<string, any>> = PRecord<
+export type PRecordErrors<T extends Record<string, any>> = DeepRecord<
   T,
   ValidationResult
 >;
+
+/**
+ * A form-level validation function. Returns errors matching the shape of the
+ * values, either synchronously or as a Promise.
+ */
+export type Validator<T extends Record<string, any>> = (
+  values: Partial<T>,
+  opts: { signal: AbortSignal }
+) => MaybePromise<PRecordErrors<T>>;
+
+/**
+ * A value that may be returned synchronously, or wrapped in a Promise.
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * When the input event handlers validate a field.
+ */
+export type ValidationMode =
+  | 'onBlur'
+  | 'onChange'
+  | 'onSubmit'
+  | 'onTouched'
+  | 'all';
+
+/**
+ * When the input event handlers revalidate a field that already has an error.
+ */
+export type ReValidateMode = 'onBlur' | 'onChange' | 'onSubmit';
+
+/** the value of a single path segment, indexes into arrays by number */
+type SegmentValue<T, K extends string> =
+  NonNullable<T> extends readonly (infer Item)[]
+    ? K extends `${number}`
+      ? Item
+      : undefined
+    : K extends keyof NonNullable<T>
+      ? NonNullable<T>[K]
+      : undefined;
+
+/**
+ * PathValue is the type of the value at a dot-notation path.
+ *
+ * @example
+ *
+ * interface MyType = {
+ *   address: { street: string };
+ *   items: { name: string }[];
+ * }
+ *
+ * type Street = PathValue<MyType, 'address.street'>; // string
+ * type ItemName = PathValue<MyType, 'items.0.name'>; // string
+ */
+export type PathValue<
+  T,
+  P extends string,
+> = P extends `${infer K}.${infer Rest}`
+  ? PathValue<SegmentValue<T, K>, Rest>
+  : SegmentValue<T, P>;
@@ -1,19 +1,74 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { FieldRules, hasFieldRules } from './fieldRules';
+import type { ValueExtractor } from './inputValue';
+import type { FieldTransform } from './transforms';
 import { ValidationResult } from './types';
 import { useWatcherFormCtx } from './WatcherFormCtx';
+import type { SyncMode, WatcherForm } from './useWatcherForm';
 
-export interface Field {
+/**
+ * Options for `useField` and `useControlledField`.
+ *
+ * Validation rules (`required`, `min`, `max`, `minLength`, `pattern`,
+ * `validate`) are registered with the form while the field is mounted, and
+ * are merged with the form-level `validator`.
+ *
+ * `parse` converts the input value before it is stored, and `format` converts
+ * the stored value into the `defaultValue`/`value` shown in the input. See the
+ * built-in `asNumber`, `asInteger`, `asTrimmed`, `asDate` and `emptyToNull`.
+ */
+export interface FieldOptions<V = any, I = any>
+  extends FieldRules,
+    FieldTransform<V, I> {
+  /**
+   * Drop the field's value, change, errors and touched state when it
+   * unmounts. Overrides the form-level `shouldUnregister`.
+   */
+  shouldUnregister?: boolean;
+  /**
+   * Read the input value based on the element type, eg. `checked` for
+   * checkboxes. Overrides the form-level `detectInputType`.
+   */
+  detectInputType?: boolean;
+  /**
+   * Extractors that turn `onChange` payloads into the stored value, tried
+   * before the form-level `valueExtractors`.
+   */
+  valueExtractors?: ValueExtractor[];
+  /**
+   * How the input is updated when its value is set programmatically.
+   * Overrides the form-level `syncMode`. With `'ref'`, spread the returned
+   * `ref` onto the input.
+   */
+  syncMode?: SyncMode;
+}
+
+/**
+ * Field props. `I` is the type of the value shown in the input, `any` unless
+ * the hook is created with `createFormHooks`.
+ */
+export interface Field<I = any> {
   /** the key is used to force rerenders */
   key: number | undefined;
-  /** the error message for the field, technically */
+  /**
+   * the error message for the field, from validation or from the server,
+   * technically a ValidationResult
+   */
   error?: ValidationResult;
   /** the default value for the field */
-  defaultValue: any;
-  /** the onChange handler for the field */
-  onChange: (e: any) => void;
+  defaultValue: I;
+  /** the onChange handler for the field, accepts an event or a value */
+  onChange: (e: I | { target: any }, ...args: any[]) => void;
   /** the onFocus handler for the field */
   onFocus: () => void;
   /** the onBlur handler for the field */
   onBlur: () => void;
+  /**
+   * a ref callback for the input element, used by `focusField` and
+   * `shouldFocusError`, and with `syncMode: 'ref'` to write values set
+   * programmatically into the element instead of remounting it
+   */
+  ref: (element: any) => (() => void) | undefined;
   /** data-path is provided for debugging, it is not used programatically */
   'data-path': string;
 }
@@ -29,6 +84,7 @@ export interface Field {
  * or `reset`), ensuring the uncontrolled input picks up the new `defaultValue`.
  *
  * @param path - Dot-notation path to the field (e.g., `"email"`, `"address.street"`, `"items.0.name"`)
+ * @param opts - Field options, see `FieldOptions`
  * @returns Field props to spread onto an input element
  *
  * @example
@@ -43,33 +99,70 @@ export interface Field {
  * }
  *
  * @example
- * // Checkbox (use e.target.checked, not e.target.value):
+ * // Checkbox (the value is read from e.target.checked):
  * function CheckboxField() {
- *   const { error, key, ...props } = useField("newsletter");
- *   const onChange = (e: React.ChangeEvent<HTMLInputElement>) => {
- *     props.onChange(e.target.checked);
- *   };
- *   return <input key={key} type="checkbox" {...props} onChange={onChange} />;
+ *   const { error, key, defaultValue, ...props } = useField("newsletter");
+ *   return (
+ *     <input key={key} type="checkbox" defaultChecked={!!defaultValue} {...props} />
+ *   );
  * }
+ *
+ * @example
+ * // Field-level validation rules:
+ * const { error, key, ...props } = useField("email", {
+ *   required: "Email is required",
+ *   pattern: { value: /\S+@\S+/, message: "Invalid email" },
+ * });
+ *
+ * @example
+ * // Store the input as a number:
+ * const { error, key, ...props } = useField("price", asNumber);
+ *
+ * @example
+ * // Ids and ARIA props for the label and error elements, see `useFieldAria`:
+ * const { error, key, ...props } = useField("email", { required: true });
+ * const { inputProps, labelProps, errorProps } = useFieldAria("email", {
+ *   required: true,
+ * });
+ *
+ * @example
+ * // Write programmatic changes into the input, instead of remounting it:
+ * const { error, key, ...props } = useField("name", { syncMode: "ref" });
+ * return <input key={key} {...props} />;
  */
-export const useField = (path: string): Field => {
+export const useField = (path: string, opts?: FieldOptions): Field => {
   const form = useWatcherFormCtx();
   if (!form) {
     throw new Error('useField must be used within a WatcherFormContext');
   }
 
+  useRegisterField(form, path, opts);
+
   // changing the value will not cause a render (getPath vs usePath)
-  const defaultValue = form.values.getPath(path);
+  const storedValue = form.values.getPath(path);
+  const defaultValue = opts?.format ? opts.format(storedValue) : storedValue;
 
   // subscribe to these paths, if they change then the parent component will
   // render
   const key = form.keys.usePath(path);
-  const error = form.errors.usePath(path);
+  const clientError = form.errors.usePath(path);
+  const serverError = form.serverErrors.usePath(path);
+  const error = clientError || serverError;
 
-  const { onChange, onFocus, onBlur } = form.getInputEventHandlers(path);
+  const { onChange, onFocus, onBlur } = form.getInputEventHandlers(path, {
+    parse: opts?.parse,
+    detectInputType: opts?.detectInputType,
+    valueExtractors: opts?.valueExtractors,
+  });
+
+  // with syncMode 'ref', the form writes values into the element instead of
+  // remounting it
+  const syncMode = opts?.syncMode ?? form.syncMode;
+  const ref = useFieldRef(form, path, opts, syncMode === 'ref');
 
   return {
-    key,
+    key: syncMode === 'ref' ? undefined : key,
+    ref,
     error,
     defaultValue,
     onChange,
@@ -79,8 +172,9 @@ export const useField = (path: string): Field => {
   };
 };
 
-export interface ControlledField extends Omit<Field, 'defaultValue'> {
-  value: any;
+export interface ControlledField<I = any>
+  extends Omit<Field<I>, 'defaultValue'> {
+  value: I;
 }
 
 /**
@@ -93,6 +187,7 @@ export interface ControlledField extends Omit<Field, 'defaultValue'> {
  * Must be used inside a `WatcherFormProvider`.
  *
  * @param path - Dot-notation path to the field (e.g., `"status"`, `"preferences.theme"`)
+ * @param opts - Field options, see `FieldOptions`
  * @returns ControlledField props to spread onto an input element
  *
  * @example
@@ -109,22 +204,37 @@ export interface ControlledField extends Omit<Field, 'defaultValue'> {
  *   );
  * }
  */
-export const useControlledField = (path: string): ControlledField => {
+export const useControlledField = (
+  path: string,
+  opts?: FieldOptions
+): ControlledField => {
   const form = useWatcherFormCtx();
   if (!form) {
     throw new Error('useField must be used within a WatcherFormContext');
   }
 
+  useRegisterField(form, path, opts);
+
   // subscribe to these paths, if they change then the parent component will
   // render
-  const value = form.values.usePath(path);
+  const storedValue = form.values.usePath(path);
+  const value = opts?.format ? opts.format(storedValue) : storedValue;
   const key = form.keys.usePath(path);
-  const error = form.errors.usePath(path);
+  const clientError = form.errors.usePath(path);
+  const serverError = form.serverErrors.usePath(path);
+  const error = clientError || serverError;
+
+  const { onChange, onFocus, onBlur } = form.getInputEventHandlers(path, {
+    parse: opts?.parse,
+    detectInputType: opts?.detectInputType,
+    valueExtractors: opts?.valueExtractors,
+  });
 
-  const { onChange, onFocus, onBlur } = form.getInputEventHandlers(path);
+  const ref = useFieldRef(form, path, opts, false);
 
   return {
     key,
+    ref,
     error,
     value,
     onChange,
@@ -133,3 +243,63 @@ export const useControlledField = (path: string): ControlledField => {
     'data-path': path,
   };
 };
+
+/**
+ * A ref callback that registers the input element with the form. With `sync`,
+ * values set programmatically are written into the element, using the latest
+ * `format`.
+ */
+const useFieldRef = (
+  form: WatcherForm<any>,
+  path: string,
+  opts: FieldOptions | undefined,
+  sync: boolean
+) => {
+  const format = useRef(opts?.format);
+  format.current = opts?.format;
+  return useCallback(
+    (element: any) => {
+      if (!element) return;
+      return form.registerFieldElement(path, element, {
+        sync,
+        format: value => (format.current ? format.current(value) : value),
+      });
+    },
+    [path, sync]
+  );
+};
+
+/**
+ * Register the field, and its validation rules, with the form while it is
+ * mounted.
+ */
+const useRegisterField = (
+  form: WatcherForm<any>,
+  path: string,
+  opts: FieldOptions | undefined
+) => {
+  const rules: FieldRules | undefined = hasFieldRules(opts)
+    ? {
+        required: opts?.required,
+        min: opts?.min,
+        max: opts?.max,
+        minLength: opts?.minLength,
+        pattern: opts?.pattern,
+        validate: opts?.validate,
+      }
+    : undefined;
+
+  const shouldUnregister = opts?.shouldUnregister;
+  // the form object is recreated on every render, so it isn't a dependency
+  useEffect(
+    () => form.registerField(path, { shouldUnregister }),
+    [path, shouldUnregister]
+  );
+
+  // the rules are re-registered on every render so that they always reflect
+  // the latest options (eg. inline `validate` functions)
+  useEffect(() => {
+    if (!rules) return;
+    return form.registerFieldRules(path, rules);
+  });
+};
@@ -0,0 +1,88 @@
+import { useId } from 'react';
+import { useWatcherFormCtx } from './WatcherFormCtx';
+
+/** Options for `useFieldAria`. */
+export interface FieldAriaOptions {
+  /**
+   * The field has a description element, rendered with `descriptionProps`,
+   * so the input is described by it.
+   */
+  hasDescription?: boolean;
+}
+
+/**
+ * Ids and ARIA attributes for a field's input, label, error and description
+ * elements. The ids are unique across forms, using `useId`.
+ */
+export interface FieldAriaProps {
+  inputProps: {
+    id: string;
+    'aria-invalid': boolean;
+    'aria-describedby': string | undefined;
+    'aria-required': true | undefined;
+  };
+  labelProps: { id: string; htmlFor: string };
+  errorProps: { id: string; role: 'alert' };
+  descriptionProps: { id: string };
+}
+
+/**
+ * Returns ids and ARIA props for a field's input, label, error and
+ * description elements, derived from the path and the field's error. The
+ * error element is only referenced while there is an error, as it's usually
+ * only rendered then. `aria-required` is set while a mounted field has a
+ * `required` rule for the path, eg. from `useField`.
+ *
+ * Must be used inside a `WatcherFormProvider`.
+ *
+ * @param path - Dot-notation path to the field, as passed to `useField`
+ * @param opts - `hasDescription` references the description element
+ * @returns Props to spread onto each element
+ *
+ * @example
+ * const { error, key, ...props } = useField("email", { required: true });
+ * const { inputProps, labelProps, errorProps, descriptionProps } =
+ *   useFieldAria("email", { hasDescription: true });
+ * return (
+ *   <div>
+ *     <label {...labelProps}>Email</label>
+ *     <input key={key} {...props} {...inputProps} />
+ *     <p {...descriptionProps}>We'll never share your email.</p>
+ *     {error && <span {...errorProps}>{error}</span>}
+ *   </div>
+ * );
+ */
+export const useFieldAria = (
+  path: string,
+  opts?: FieldAriaOptions
+): FieldAriaProps => {
+  const form = useWatcherFormCtx();
+  if (!form) {
+    throw new Error('useFieldAria must be used within a WatcherFormContext');
+  }
+
+  const clientError = form.errors.usePath(path);
+  const serverError = form.serverErrors.usePath(path);
+  const error = clientError || serverError;
+  const isRequired = form.required.usePath(path);
+
+  const id = `${useId()}-${path}`;
+  const errorId = `${id}-error`;
+  const descriptionId = `${id}-description`;
+  const describedBy = [
+    opts?.hasDescription && descriptionId,
+    error && errorId,
+  ].filter(Boolean);
+
+  return {
+    inputProps: {
+      id,
+      'aria-invalid': !!error,
+      'aria-describedby': describedBy.join(' ') || undefined,
+      'aria-required': isRequired ? true : undefined,
+    },
+    labelProps: { id: `${id}-label`, htmlFor: id },
+    errorProps: { id: errorId, role: 'alert' },
+    descriptionProps: { id: descriptionId },
+  };
+};
@@ -0,0 +1,134 @@
+import { useWatcherFormCtx } from './WatcherFormCtx';
+
+export interface FieldArrayItem {
+  /** a stable id for the item, use it as the React `key` for the row */
+  id: string;
+  /** the current index of the item */
+  index: number;
+  /** the path to the item, eg. `"items.0"` */
+  path: string;
+}
+
+/**
+ * `Item` is the type of the array items, `any` unless the hook is created with
+ * `createFormHooks`.
+ */
+export interface FieldArray<Item = any> {
+  /** the items of the array, rerenders when items are added, moved or removed */
+  fields: FieldArrayItem[];
+  /** add one or more items to the end of the array */
+  append: (value: Item | Item[]) => void;
+  /** add one or more items to the start of the array */
+  prepend: (value: Item | Item[]) => void;
+  /** insert one or more items at the index */
+  insert: (index: number, value: Item | Item[]) => void;
+  /** remove the item(s) at the index(es), or all items if no index is given */
+  remove: (index?: number | number[]) => void;
+  /** move an item from one index to another */
+  move: (from: number, to: number) => void;
+  /** swap the items at two indexes */
+  swap: (indexA: number, indexB: number) => void;
+  /** replace all of the items */
+  replace: (values: Item[]) => void;
+}
+
+interface Entry {
+  value: any;
+  /** the index of the item before the update, undefined for new items */
+  from: number | undefined;
+}
+
+const toEntries = (value: any | any[]): Entry[] =>
+  (Array.isArray(value) ? value : [value]).map(item => ({
+    value: item,
+    from: undefined,
+  }));
+
+/**
+ * Manage a dynamic list of items, eg. invoice line items or contacts.
+ *
+ * Each item has a stable `id` to use as the React `key` for its row, so that
+ * uncontrolled inputs keep their DOM values when rows are added, moved or
+ * removed. The errors, touched state and keys of each item follow it to its
+ * new index.
+ *
+ * Must be used inside a `WatcherFormProvider`.
+ *
+ * @param path - Dot-notation path to the array field (e.g., `"items"`)
+ * @returns The items, and functions to update the array
+ *
+ * @example
+ * function LineItems() {
+ *   const { fields, append, remove } = useFieldArray("items");
+ *   return (
+ *     <div>
+ *       {fields.map(({ id, index, path }) => (
+ *         <div key={id}>
+ *           <TextField path={`${path}.name`} label={`Item ${index + 1}`} />
+ *           <button type="button" onClick={() => remove(index)}>Remove</button>
+ *         </div>
+ *       ))}
+ *       <button type="button" onClick={() => append({ name: "" })}>Add</button>
+ *     </div>
+ *   );
+ * }
+ */
+export const useFieldArray = (path: string): FieldArray => {
+  const form = useWatcherFormCtx();
+  if (!form) {
+    throw new Error('useFieldArray must be used within a WatcherFormContext');
+  }
+
+  // subscribe to the array, so that the component rerenders when items are
+  // added, moved or removed
+  const items: any[] = form.values.usePath(path) ?? [];
+  const ids = form.getFieldArrayIds(path, items.length);
+
+  const fields = ids.map((id, index) => ({
+    id,
+    index,
+    path: `${path}.${index}`,
+  }));
+
+  const update = (fn: (entries: Entry[]) => Entry[]) => {
+    const current: any[] = form.values.getPath(path) ?? [];
+    const entries = fn(current.map((value, index) => ({ value, from: index })));
+    form.setFieldArray(
+      path,
+      entries.map(entry => entry.value),
+      entries.map(entry => entry.from)
+    );
+  };
+
+  return {
+    fields,
+    append: value => update(entries => [...entries, ...toEntries(value)]),
+    prepend: value => update(entries => [...toEntries(value), ...entries]),
+    insert: (index, value) =>
+      update(entries => [
+        ...entries.slice(0, index),
+        ...toEntries(value),
+        ...entries.slice(index),
+      ]),
+    remove: index =>
+      update(entries => {
+        if (index === undefined) return [];
+        const indexes = Array.isArray(index) ? index : [index];
+        return entries.filter((_, i) => !indexes.includes(i));
+      }),
+    move: (from, to) =>
+      update(entries => {
+        const moved = [...entries];
+        moved.splice(to, 0, ...moved.splice(from, 1));
+        return moved;
+      }),
+    swap: (indexA, indexB) =>
+      update(entries => {
+        const swapped = [...entries];
+        swapped[indexA] = entries[indexB];
+        swapped[indexB] = entries[indexA];
+        return swapped;
+      }),
+    replace: values => update(() => toEntries(values)),
+  };
+};
@@ -0,0 +1,74 @@
+import { useReducer, useRef } from 'react';
+import type { DeepRecord, PRecordErrors } from './types';
+import { useWatcherFormCtx } from './WatcherFormCtx';
+
+/** The form state passed to a `useWatch` selector. */
+export interface WatchState<T extends Record<string, any>> {
+  values: Partial<T>;
+  errors: PRecordErrors<T>;
+  touched: DeepRecord<T, boolean>;
+}
+
+/**
+ * Select a value derived from the form's values, errors and touched state.
+ * The component only rerenders when the selected value changes, compared
+ * with `equalityFn`.
+ *
+ * Must be used inside a `WatcherFormProvider`.
+ *
+ * @param selector - Derives a value from the form state
+ * @param equalityFn - Compares the previous and next selected values, defaults
+ * to `Object.is`
+ * @returns The selected value
+ *
+ * @example
+ * function Summary() {
+ *   const itemCount = useWatch(({ values }) => values.items?.length ?? 0);
+ *   const nameError = useWatch(({ errors }) => errors.name);
+ *   // to check the whole form for errors, use `form.isValid.useState()`
+ *   return <p>{itemCount} items{nameError && `, ${nameError}`}</p>;
+ * }
+ */
+export const useWatch = <T extends Record<string, any>, R>(
+  selector: (state: WatchState<T>) => R,
+  equalityFn: (a: R, b: R) => boolean = Object.is
+): R => {
+  const form = useWatcherFormCtx<T>();
+  if (!form) {
+    throw new Error('useWatch must be used within a WatcherFormContext');
+  }
+
+  const [, rerender] = useReducer((count: number) => count + 1, 0);
+
+  const select = () =>
+    selector({
+      values: form.values.getState(),
+      errors: form.errors.getState(),
+      touched: form.touched.getState(),
+    });
+
+  // select on every render, so that a new selector takes effect immediately,
+  // but keep the previous value if it's equal
+  const selected = useRef<{ value: R } | undefined>(undefined);
+  const value = select();
+  if (!selected.current || !equalityFn(selected.current.value, value)) {
+    selected.current = { value };
+  }
+
+  // the latest select and equalityFn, for the watchers
+  const latest = useRef({ select, equalityFn });
+  latest.current = { select, equalityFn };
+
+  const check = () => {
+    const next = latest.current.select();
+    if (!latest.current.equalityFn(selected.current!.value, next)) {
+      selected.current = { value: next };
+      rerender();
+    }
+  };
+  form.values.watchState(check);
+  form.errors.watchState(check);
+  form.touched.watchState(check);
+
+  return selected.current.value;
+};
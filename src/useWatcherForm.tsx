@@ -1,4 +1,4 @@
-import { useCallback, useEffect } from 'react';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   PathOf,
   WatcherMap,
@@ -7,17 +7,288 @@ import {
   useWatcher,
   useWatcherMap,
 } from 'use-watcher-map';
-import type { PRecord, PRecordErrors, ValidationResult } from './types';
+import type {
+  DeepRecord,
+  MaybePromise,
+  PRecordErrors,
+  ReValidateMode,
+  ValidationMode,
+  Validator,
+} from './types';
+import { FieldRules, validateFieldRules } from './fieldRules';
+import { StandardSchemaV1, schemaValidator } from './schemaValidator';
+import type { FieldTransform } from './transforms';
+import { ValueExtractor, extractValue, setElementValue } from './inputValue';
+import {
+  PersistOptions,
+  getDraftEdits,
+  readDraft,
+  removeDraft,
+  writeDraft,
+} from './persist';
+import {
+  ServerErrors,
+  isServerErrorsResult,
+  normalizeServerErrors,
+} from './serverErrors';
+import {
+  countErrors,
+  isDeepEqual,
+  isPromiseLike,
+  mergeErrors,
+  omitDeepPath,
+  setDeepPath,
+} from './utils';
+
+/**
+ * Validation started by the form itself, eg. on change or for a dependent
+ * field, isn't awaited, so a rejected async validator is ignored rather than
+ * left unhandled. `runValidator` has already cleared the validating state,
+ * and callers that await `validateField` still see the rejection.
+ */
+const ignoreRejection = (result: MaybePromise<unknown>) => {
+  if (isPromiseLike(result)) result.then(undefined, () => {});
+};
+
+/** the key used to track runs of `validateAll` (field runs use their path) */
+const VALIDATE_ALL = Symbol('validateAll');
+
+/**
+ * Reorder the per-item state of an array field within a WatcherMap, where
+ * `from` maps each new index to the index it had before.
+ */
+const reindexFieldArray = (
+  map: WatcherMap<any>,
+  path: string,
+  from: (number | undefined)[]
+) => {
+  const current = map.getPath(path);
+  // errors can be a string for the whole array, eg. "at least one required"
+  if (typeof current !== 'object' || current === null) return;
+  const reindexed = from.map(index =>
+    index === undefined ? undefined : current[index]
+  );
+  if (reindexed.every(item => item === undefined)) {
+    map.clearPath(path, true);
+  } else {
+    map.setPath(path, reindexed);
+  }
+};
+
+/**
+ * Move the paths nested under an array field along with their items, where
+ * `from` maps each new index to the index it had before. The paths of removed
+ * items are dropped.
+ */
+const reindexFieldArrayPaths = (
+  paths: Set<string>,
+  path: string,
+  from: (number | undefined)[]
+) => {
+  const prefix = `${path}.`;
+  const moved: string[] = [];
+  for (const itemPath of paths) {
+    if (!itemPath.startsWith(prefix)) continue;
+    paths.delete(itemPath);
+    const [index, ...rest] = itemPath.slice(prefix.length).split('.');
+    const newIndex = from.indexOf(Number(index));
+    if (newIndex !== -1) moved.push([`${path}.${newIndex}`, ...rest].join('.'));
+  }
+  for (const itemPath of moved) paths.add(itemPath);
+};
+
+/**
+ * Invert the `from` mapping of a field array edit, so that it maps each index
+ * after undoing the edit to the index the item has now.
+ */
+const invertFieldArrayMapping = (
+  from: (number | undefined)[],
+  length: number
+): (number | undefined)[] =>
+  Array.from({ length }, (_, index) => {
+    const newIndex = from.indexOf(index);
+    return newIndex === -1 ? undefined : newIndex;
+  });
+
+/** whether one path is equal to, or nested within, the other */
+const pathsOverlap = (a: string, b: string) =>
+  a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+
+/** Sort elements in DOM order. */
+const compareDocumentPosition = (a: any, b: any) => {
+  if (a === b || typeof a.compareDocumentPosition !== 'function') return 0;
+  // DOCUMENT_POSITION_FOLLOWING, b comes after a
+  return a.compareDocumentPosition(b) & 4 ? -1 : 1;
+};
+
+/** Scroll an element into view and focus it. */
+const focusElement = (element: any) => {
+  element.scrollIntoView?.({ block: 'center' });
+  element.focus?.({ preventScroll: true });
+};
+
+/**
+ * Expand the `*` segments of a path to every index of the array at that
+ * point in the values.
+ */
+const expandPath = (
+  pattern: string,
+  values: any
+): { path: string; indexes: number[] }[] => {
+  let matches = [{ segments: [] as string[], indexes: [] as number[] }];
+  for (const segment of pattern.split('.')) {
+    if (segment !== '*') {
+      matches = matches.map(match => ({
+        ...match,
+        segments: [...match.segments, segment],
+      }));
+      continue;
+    }
+    matches = matches.flatMap(match => {
+      const items = getDeepPath(values, match.segments);
+      if (!Array.isArray(items)) return [];
+      return items.map((_, index) => ({
+        segments: [...match.segments, String(index)],
+        indexes: [...match.indexes, index],
+      }));
+    });
+  }
+  return matches.map(({ segments, indexes }) => ({
+    path: segments.join('.'),
+    indexes,
+  }));
+};
+
+/** Whether `path` is `parent`, or nested under it. */
+const isPathWithin = (path: string, parent: string) =>
+  path === parent || path.startsWith(`${parent}.`);
+
+/** The paths whose condition is false. */
+const getHiddenPaths = <T extends Record<string, any>>(
+  conditions: WatcherFormProps<T>['conditions'],
+  values: Partial<T>
+) =>
+  Object.entries(conditions ?? {})
+    .filter(([, condition]) => condition && !condition(values))
+    .map(([path]) => path);
+
+/** Whether each path with a condition is visible, as a nested record. */
+const getVisibility = <T extends Record<string, any>>(
+  conditions: WatcherFormProps<T>['conditions'],
+  values: Partial<T>
+) => {
+  let visibility: any = {};
+  for (const [path, condition] of Object.entries(conditions ?? {})) {
+    if (!condition) continue;
+    visibility = setDeepPath(visibility, path.split('.'), condition(values));
+  }
+  return visibility as DeepRecord<T, boolean>;
+};
+
+const capitalize = (str: string) => str.charAt(0).toUpperCase() + str.slice(1);
+
+/** Options for `getInputEventHandlers`, set per field by `useField`. */
+export interface InputEventHandlerOptions
+  extends Pick<FieldTransform, 'parse'> {
+  /** overrides the form-level `detectInputType` */
+  detectInputType?: boolean;
+  /** tried before the form-level `valueExtractors` */
+  valueExtractors?: ValueExtractor[];
+}
+
+/**
+ * Computes the value of a derived field from the form values. For paths with
+ * `*` segments, `path` is the concrete path and `indexes` are the array
+ * indexes matched by each `*`.
+ */
+export type ComputedField<T extends Record<string, any>> = (
+  values: Partial<T>,
+  ctx: { path: string; indexes: number[] }
+) => any;
+
+/** Options for the undo/redo `history`. */
+export interface HistoryOptions {
+  /**
+   * The maximum number of undo steps kept.
+   * @default 100
+   */
+  limit?: number;
+  /**
+   * Edits to the same field within this many milliseconds of the previous
+   * edit are merged into one undo step, eg. keystrokes.
+   * @default 1000
+   */
+  coalesceMs?: number;
+}
+
+/** Options for syncing edits between tabs, see `tabSync`. */
+export interface TabSyncOptions {
+  /**
+   * Identifies the form, eg. by the record being edited. Tabs with the same
+   * id share their edits.
+   */
+  id: string;
+}
+
+/**
+ * An edit from another tab that wasn't applied, because the field was also
+ * edited in this tab.
+ */
+export interface FieldConflict {
+  /** the value in this tab */
+  local: any;
+  /** the value from the other tab */
+  remote: any;
+}
+
+/** The watchers that `form.watch` can subscribe to. */
+export type WatchSource = 'values' | 'errors' | 'touched';
+
+/** How uncontrolled fields are updated when a value is set programmatically. */
+export type SyncMode = 'key' | 'ref';
+
+/** a change to a field, with its values before and after */
+interface FieldEdit {
+  path: string;
+  before: any;
+  after: any;
+}
+
+/**
+ * a recorded edit, with the `from` mapping of a field array edit so that undo
+ * can move the per-item state back
+ */
+interface HistoryEdit extends FieldEdit {
+  from?: (number | undefined)[];
+}
+
+/** an undo step, the fields it changed and their values before and after */
+interface HistoryEntry {
+  edits: HistoryEdit[];
+  /** when the entry was last updated */
+  time: number;
+  /** the path of a single-field edit, that later edits may be merged into */
+  coalescePath?: string;
+}
+
+interface ValidationRun {
+  controller: AbortController;
+  result: unknown;
+}
 
 export interface WatcherFormProps<T extends Record<string, any>> {
   /** Initial values for the form. Can be a partial object. */
   initialValues: Partial<T>;
 
   /**
-   * Synchronous validation function. Return an object keyed by field name
-   * with string error messages. Use `undefined` or `null` for valid fields.
+   * Validation function. Return an object keyed by field name with string
+   * error messages. Use `undefined` or `null` for valid fields.
    * Supports nested objects matching your data shape.
    *
+   * May also return a Promise for server-backed checks. Only the latest run
+   * for a field (or for the whole form) is applied, older runs are discarded
+   * and their `signal` is aborted.
+   *
    * @example
    * validator: (values) => ({
    *   name: values.name ? undefined : 'Name is required',
@@ -26,8 +297,25 @@ export interface WatcherFormProps<T extends Record<string, any>> {
    *     street: values.address?.street ? undefined : 'Street is required',
    *   },
    * })
+   *
+   * @example
+   * validator: async (values, { signal }) => ({
+   *   username: (await api.isUsernameTaken(values.username, { signal }))
+   *     ? 'Username is taken'
+   *     : undefined,
+   * })
    */
-  validator?: (values: Partial<T>) => PRecordErrors<T>;
+  validator?: Validator<T>;
+
+  /**
+   * A schema implementing Standard Schema v1 (eg. zod, valibot, arktype),
+   * validated in addition to `validator`. Issue paths are mapped onto the
+   * errors object, and errors from `validator` take precedence.
+   *
+   * @example
+   * schema: z.object({ name: z.string().min(1, 'Name is required') })
+   */
+  schema?: StandardSchemaV1;
 
   /**
    * Enable the debug overlay (toggle with Ctrl+/).
@@ -45,13 +333,173 @@ export interface WatcherFormProps<T extends Record<string, any>> {
    */
   resetOnInitialValuesChange?: 'No' | 'Always' | 'OnlyIfClean';
 
+  /**
+   * Drop a field's value, change, errors and touched state when the field
+   * unmounts, and restore its initial value if it mounts again. Can be
+   * overridden per field with `useField(path, { shouldUnregister })`.
+   * @default false
+   */
+  shouldUnregister?: boolean;
+
+  /**
+   * Read input values based on the element type in `onChange`: `checked` for
+   * checkboxes, numbers for number and range inputs, a `File[]` for file
+   * inputs and an array of values for multiple selects. Date inputs are read
+   * as `YYYY-MM-DD`, use `asDate` to store a `Date`. Set to `false` to always
+   * read `e.target.value`. Can be overridden per field with
+   * `useField(path, { detectInputType })`.
+   * @default true
+   */
+  detectInputType?: boolean;
+
+  /**
+   * How uncontrolled fields are updated when a value is set programmatically,
+   * eg. by `setFieldValue`, `setFieldValues` or `reset`.
+   * - `'key'` — increment the field's `key`, remounting the input (default)
+   * - `'ref'` — write the value into the input through the `ref` returned by
+   *   `useField`, keeping focus, caret position and internal state
+   *
+   * Can be overridden per field with `useField(path, { syncMode })`.
+   * @default 'key'
+   */
+  syncMode?: SyncMode;
+
+  /**
+   * Extractors that turn `onChange` payloads into the stored value, eg. for
+   * components that call `onChange(option, meta)` or fire a `CustomEvent`.
+   * The first extractor whose `test` matches is used, and DOM events that
+   * don't match any are read as usual. Fields can add their own with
+   * `useField(path, { valueExtractors })`. See the built-in
+   * `customEventExtractor` and `optionExtractor`.
+   */
+  valueExtractors?: ValueExtractor[];
+
+  /**
+   * Equality function used to compare a field's value with its initial value.
+   * A field that is set back to its initial value is removed from `changes`.
+   * Defaults to a deep equality of arrays and plain objects, that compares
+   * Dates by time and anything else by identity.
+   */
+  isEqual?: (a: any, b: any) => boolean;
+
+  /**
+   * When the input event handlers validate a field.
+   * - `'onBlur'` — validate on blur (default)
+   * - `'onChange'` — validate on every change
+   * - `'onSubmit'` — only validate when `submit()` is called
+   * - `'onTouched'` — validate on the first blur, then on every change
+   * - `'all'` — validate on both blur and change
+   * @default 'onBlur'
+   */
+  mode?: ValidationMode;
+
+  /**
+   * When the input event handlers revalidate a field that already has an
+   * error, or any field after `submit()` has been called.
+   * @default 'onChange'
+   */
+  reValidateMode?: ReValidateMode;
+
+  /**
+   * Cross-field validation dependencies, keyed by the dependent path. When a
+   * field is validated (eg. by `setFieldValue` or on blur), the fields that
+   * depend on it are revalidated too, if they are touched or already have an
+   * error.
+   *
+   * @example
+   * dependencies: {
+   *   confirmPassword: ['password'],
+   *   endDate: ['startDate'],
+   * }
+   */
+  dependencies?: Partial<Record<PathOf<Partial<T>>, PathOf<Partial<T>>[]>>;
+
   /** Called when `submit()` is blocked by validation errors. */
-  onValidationErrors?: (errors: ValidationResult) => void;
+  onValidationErrors?: (errors: PRecordErrors<T>) => void;
+
+  /**
+   * Focus and scroll to the first field with an error, in DOM order, when
+   * `submit()` is blocked by validation errors. Fields must spread the `ref`
+   * returned by `useField`.
+   * @default false
+   */
+  shouldFocusError?: boolean;
+
+  /**
+   * Visibility conditions, keyed by path. A field is hidden while its
+   * condition returns false, or while a parent path is hidden. Hidden fields
+   * are not validated, and can be stripped from submitted values with
+   * `shouldStripHidden`.
+   *
+   * @example
+   * conditions: {
+   *   companyName: values => values.accountType === 'business',
+   * }
+   */
+  conditions?: Partial<
+    Record<PathOf<Partial<T>>, (values: Partial<T>) => boolean>
+  >;
+
+  /**
+   * Derived fields, keyed by path. Recomputed in order whenever the values
+   * change, and written into `values` without marking them in `changes`.
+   * Use `*` to match every index of an array.
+   *
+   * @example
+   * computed: {
+   *   'items.*.lineTotal': (values, { indexes: [i] }) =>
+   *     values.items[i].qty * values.items[i].price,
+   *   grandTotal: values =>
+   *     values.items.reduce((sum, item) => sum + item.lineTotal, 0),
+   * }
+   */
+  computed?: Record<string, ComputedField<T>>;
+
+  /**
+   * Record `setFieldValue`, `setFieldValues` and field array edits so that
+   * they can be undone with `undo()` and redone with `redo()`. Edits to the
+   * same field in quick succession are merged into one step. `reset()`
+   * clears the history.
+   * @default false
+   */
+  history?: boolean | HistoryOptions;
+
+  /**
+   * Save the edits to storage as the user types, and restore them when the
+   * form mounts, eg. after a reload. The draft is removed after a successful
+   * `submit()` or a `reset()`.
+   *
+   * @example
+   * persist: { key: 'signup', storage: 'session', exclude: ['password'] }
+   */
+  persist?: PersistOptions<T>;
+
+  /**
+   * Share edits with other tabs that have the same form open, over a
+   * `BroadcastChannel`. Edits from other tabs are applied without adding them
+   * to `changes`, though fields already in `changes` are kept up to date. If
+   * the field was also edited in this tab, the edit is added to `conflicts`
+   * instead, see `resolveConflict`.
+   *
+   * @example
+   * tabSync: { id: `order-${order.id}` }
+   */
+  tabSync?: TabSyncOptions;
+
+  /**
+   * Remove hidden fields (see `conditions`) from the values and changes
+   * passed to `onSubmit`.
+   * @default false
+   */
+  shouldStripHidden?: boolean;
 
   /**
    * Async submit handler. Called after successful validation.
    * Receives all current values and only the changed fields.
    *
+   * Return `{ serverErrors }` to reject the submission with server errors,
+   * see `setServerErrors`.
+   *
    * @example
    * onSubmit: async (values, changes) => {
    *   await api.updateUser(values);
@@ -59,6 +507,18 @@ export interface WatcherFormProps<T extends Record<string, any>> {
    * }
    */
   onSubmit?: (values: Partial<T>, changes: Partial<T>) => Promise<any>;
+
+  /** Called with the result of `onSubmit` when it resolves. */
+  onSubmitSuccess?: (result: any, values: Partial<T>) => void;
+
+  /**
+   * Called when `onSubmit` throws or rejects. If not provided, the error is
+   * rethrown from `submit()`.
+   */
+  onSubmitError?: (error: unknown, values: Partial<T>) => void;
+
+  /** Called after `onSubmit` either resolves or rejects. */
+  onSubmitSettled?: (result: any, error: unknown, values: Partial<T>) => void;
 }
 
 /**
@@ -79,10 +539,23 @@ export interface WatcherForm<T extends Record<string, any>> {
 
   /**
    * Only the fields that have been modified since initialization or last reset.
+   * A field that is set back to its initial value is removed.
    * Same WatcherMap API as `values`.
    */
   changes: WatcherMap<Partial<T>>;
 
+  /**
+   * Whether any field differs from its initial value.
+   * Same WatcherPrimitive API as `isSubmitting`.
+   */
+  isDirty: WatcherPrimitive<boolean>;
+
+  /**
+   * Tracks which fields differ from their initial value.
+   * Same WatcherMap API as `values`.
+   */
+  dirty: WatcherMap<DeepRecord<T, boolean>>;
+
   /**
    * Validation error messages per field. Values are strings (error message),
    * `undefined`/`null` (no error), or nested objects for nested fields.
@@ -90,18 +563,57 @@ export interface WatcherForm<T extends Record<string, any>> {
    */
   errors: WatcherMap<PRecordErrors<T>>;
 
+  /**
+   * Field errors from the server, set by `setServerErrors` or returned from
+   * `onSubmit`. Stored separately from `errors` so they survive validation.
+   * Each is cleared when its field is edited.
+   * Same WatcherMap API as `values`.
+   */
+  serverErrors: WatcherMap<PRecordErrors<T>>;
+
+  /**
+   * A form-level error message that doesn't belong to a field, eg. from the
+   * server. Cleared on the next submit or reset.
+   */
+  formError: WatcherPrimitive<string | undefined>;
+
   /**
    * Rerender counters per field. Incremented when a field value changes
    * programmatically. Used as the React `key` prop on uncontrolled inputs
    * to force remount with updated `defaultValue`.
    */
-  keys: WatcherMap<PRecord<T, number>>;
+  keys: WatcherMap<DeepRecord<T, number>>;
+
+  /**
+   * The paths of the fields that are currently mounted, via `useField` or
+   * `useControlledField`.
+   */
+  registeredFields: WatcherPrimitive<string[]>;
+
+  /** `true` when there is an edit to undo, with `history` enabled. */
+  canUndo: WatcherPrimitive<boolean>;
+
+  /** `true` when there is an undone edit to redo. */
+  canRedo: WatcherPrimitive<boolean>;
+
+  /**
+   * Whether each field with a condition (see `conditions`) is visible, kept
+   * in sync with the values. Fields without a condition are `undefined`.
+   * Same WatcherMap API as `values`.
+   */
+  visibility: WatcherMap<DeepRecord<T, boolean>>;
+
+  /**
+   * Edits from other tabs (see `tabSync`) to fields that were also edited in
+   * this tab. Same WatcherMap API as `values`.
+   */
+  conflicts: WatcherMap<DeepRecord<T, FieldConflict>>;
 
   /**
    * Tracks which fields have received focus (via onFocus).
    * Same WatcherMap API as `values`.
    */
-  touched: WatcherMap<PRecord<T, boolean>>;
+  touched: WatcherMap<DeepRecord<T, boolean>>;
 
   /**
    * Whether an async submission is in progress.
@@ -111,6 +623,56 @@ export interface WatcherForm<T extends Record<string, any>> {
    */
   isSubmitting: WatcherPrimitive<boolean>;
 
+  /**
+   * The number of times `submit()` has been called (that reached validation)
+   * since initialization or the last reset.
+   */
+  submitCount: WatcherPrimitive<number>;
+
+  /** Whether `submit()` has been called since initialization or reset. */
+  isSubmitted: WatcherPrimitive<boolean>;
+
+  /** Whether the last submission resolved without throwing. */
+  isSubmitSuccessful: WatcherPrimitive<boolean>;
+
+  /** The value returned by the last successful `onSubmit`. */
+  lastSubmitResult: WatcherPrimitive<any>;
+
+  /** The error thrown by the last failed `onSubmit`. */
+  lastSubmitError: WatcherPrimitive<unknown>;
+
+  /**
+   * Whether any async validation is in progress.
+   * Same WatcherPrimitive API as `isSubmitting`.
+   */
+  isValidating: WatcherPrimitive<boolean>;
+
+  /**
+   * Whether the form currently has no errors. Derived from `errors`, so it
+   * only reflects fields that have been validated.
+   * Same WatcherPrimitive API as `isSubmitting`.
+   */
+  isValid: WatcherPrimitive<boolean>;
+
+  /**
+   * The number of error messages currently in `errors`, at any depth.
+   * Same WatcherPrimitive API as `isSubmitting`.
+   */
+  errorCount: WatcherPrimitive<number>;
+
+  /**
+   * Tracks which fields have an async `validateField` run in progress.
+   * Same WatcherMap API as `values`.
+   */
+  validating: WatcherMap<DeepRecord<T, boolean>>;
+
+  /**
+   * Tracks which mounted fields have a `required` rule, used by `useFieldAria`
+   * to set `aria-required`.
+   * Same WatcherMap API as `values`.
+   */
+  required: WatcherMap<DeepRecord<T, boolean>>;
+
   /**
    * Incremented when `reset({ forceRender: true })` is called.
    * Used as the React `key` on WatcherFormProvider to force full form remount.
@@ -122,7 +684,8 @@ export interface WatcherForm<T extends Record<string, any>> {
   /**
    * Trigger the submission process.
    *
-   * Validate the form, trigger the submit handler, call onSubmitSuccess or onSubmitError.
+   * Validate the form, trigger the submit handler, call onSubmitSuccess or
+   * onSubmitError, then onSubmitSettled.
    */
   submit: (e?: any) => Promise<any>;
 
@@ -135,6 +698,18 @@ export interface WatcherForm<T extends Record<string, any>> {
    */
   reset: (opts?: { newValues?: Partial<T>; forceRender?: boolean }) => void;
 
+  /**
+   * Undo the last recorded edit (see `history`), restoring the previous
+   * values of the fields it changed.
+   */
+  undo: () => void;
+
+  /** Redo the last undone edit. */
+  redo: () => void;
+
+  /** Clear the undo and redo history. */
+  clearHistory: () => void;
+
   /**
    * Manually set the value of a field.
    */
@@ -156,37 +731,143 @@ export interface WatcherForm<T extends Record<string, any>> {
    */
   setFieldValues: (newValues: [path: PathOf<Partial<T>>, value: any][]) => void;
 
+  /**
+   * Set errors from the server. Accepts the nested errors shape, or a list of
+   * `{ path, message }` items where an item without a path is a form error.
+   * Replaces any previous server errors.
+   *
+   * eg.
+   * setServerErrors({ email: 'already registered' })
+   * setServerErrors([{ path: 'email', message: 'already registered' }])
+   */
+  setServerErrors: (serverErrors: ServerErrors<T>) => void;
+
+  /**
+   * Clear all server errors, including the form error.
+   */
+  clearServerErrors: () => void;
+
   /**
    * Validate a single field.
    *
-   * Sets the errors object, and also returns the error.
+   * Sets the errors object, and also returns the error. Returns a Promise
+   * if the validator is async.
    * @note - the path can be segmented eg. a.b.c
    */
-  validateField: (path: PathOf<Partial<T>>) => string | undefined;
+  validateField: (path: PathOf<Partial<T>>) => MaybePromise<string | undefined>;
 
   /**
    * Validate all fields, and set the errors watcher.
-   * @returns Object with validation errors and a hasErrors flag.
+   * @returns Object with validation errors and a hasErrors flag, or a Promise
+   * of it if the validator is async.
    */
-  validateAll: () => {
+  validateAll: () => MaybePromise<{
     errors?: PRecordErrors<T>;
     hasErrors: boolean;
-  };
+  }>;
 
   /**
    * Force a rerender of a field by incrementing an internal key.
    */
-  incrementKey: (path: PathOf<PRecord<T, number>>) => void;
+  incrementKey: (path: PathOf<DeepRecord<T, number>>) => void;
+
+  /**
+   * Register field-level validation rules (used internally by `useField`).
+   * The rules are merged with the form-level `validator` by `validateField`
+   * and `validateAll`. Returns a function that removes the rules.
+   */
+  registerFieldRules: (
+    path: PathOf<Partial<T>>,
+    rules: FieldRules
+  ) => () => void;
+
+  /**
+   * Register a mounted field (used internally by `useField`). Returns a
+   * function that unregisters the field. If `shouldUnregister` is true, the
+   * field's value, change, errors and touched state are dropped when it
+   * unregisters, and its initial value is restored if it registers again.
+   */
+  registerField: (
+    path: PathOf<Partial<T>>,
+    opts?: { shouldUnregister?: boolean }
+  ) => () => void;
+
+  /**
+   * Register an input element for a field (used internally by `useField`),
+   * so that it can be focused. With `sync`, values set programmatically are
+   * written into the element, converted by `format`. Returns a function that
+   * unregisters the element.
+   */
+  registerFieldElement: (
+    path: PathOf<Partial<T>>,
+    element: any,
+    opts?: { sync?: boolean; format?: (value: any) => any }
+  ) => () => void;
+
+  /**
+   * Focus the input element of a field, or the first element (in DOM order)
+   * nested under the path, and scroll it into view. Returns false if no
+   * element is registered for the path.
+   */
+  focusField: (path: PathOf<Partial<T>>) => boolean;
+
+  /**
+   * Resolve a conflict from `tabSync`, by keeping the value in this tab or
+   * taking the value from the other tab. The chosen value is sent to the
+   * other tabs, so that they resolve the conflict the same way.
+   */
+  resolveConflict: (path: PathOf<Partial<T>>, keep: 'local' | 'remote') => void;
+
+  /**
+   * Call `callback` when the value at a path changes, without rendering, eg.
+   * to load data or log edits. With an array of paths, the callback receives
+   * arrays of the values. `source` watches `errors` or `touched` instead of
+   * `values`. Returns a function that unsubscribes.
+   *
+   * @example
+   * useEffect(
+   *   () => form.watch('country', country => loadRegions(country)),
+   *   []
+   * );
+   */
+  watch: (
+    pathOrPaths: PathOf<Partial<T>> | PathOf<Partial<T>>[],
+    callback: (value: any, prevValue: any) => void,
+    opts?: { source?: WatchSource }
+  ) => () => void;
+
+  /**
+   * Replace the items of an array field (used internally by `useFieldArray`).
+   * `from` maps each new index to the index the item had before, or
+   * `undefined` for new items, so that the item's errors, touched state and
+   * keys follow it to its new index.
+   */
+  setFieldArray: (
+    path: PathOf<Partial<T>>,
+    items: any[],
+    from: (number | undefined)[]
+  ) => void;
+
+  /**
+   * Get stable ids for the items of an array field (used internally by
+   * `useFieldArray`).
+   */
+  getFieldArrayIds: (path: PathOf<Partial<T>>, length: number) => string[];
 
   // helpers
   debug: boolean;
+  syncMode: SyncMode;
   initialValues: Partial<T>;
 
   /**
    * Get the event handlers for an input field, onChange, onBlur, onFocus.
+   * `parse` converts the input value before it is stored.
    */
-  getInputEventHandlers: (path: PathOf<Partial<T>>) => {
-    onChange: (e: any) => void;
+  getInputEventHandlers: (
+    path: PathOf<Partial<T>>,
+    opts?: InputEventHandlerOptions
+  ) => {
+    onChange: (e: any, ...args: any[]) => void;
     onFocus: () => void;
     onBlur: () => void;
   };
@@ -194,25 +875,371 @@ export interface WatcherForm<T extends Record<string, any>> {
 
 export const useWatcherForm = <T extends Record<string, any>>({
   debug = true,
+  computed,
+  conditions,
+  dependencies,
+  detectInputType = true,
+  history = false,
   initialValues = {} as T,
+  isEqual = isDeepEqual,
+  mode = 'onBlur',
   onSubmit,
+  onSubmitError,
+  onSubmitSettled,
+  onSubmitSuccess,
   onValidationErrors,
+  persist,
   resetOnInitialValuesChange = 'No',
-  validator,
+  reValidateMode = 'onChange',
+  schema,
+  shouldFocusError = false,
+  shouldStripHidden = false,
+  shouldUnregister = false,
+  syncMode = 'key',
+  tabSync,
+  validator: validatorProp,
+  valueExtractors,
 }: WatcherFormProps<T>): WatcherForm<T> => {
+  // combine the schema and the validator into a single validator
+  const validator = useMemo((): Validator<T> | undefined => {
+    if (!schema) return validatorProp;
+    const validateSchema = schemaValidator<T>(schema);
+    if (!validatorProp) return validateSchema;
+    return (values, opts) => {
+      const results = [
+        validatorProp(values, opts),
+        validateSchema(values, opts),
+      ];
+      return results.some(result => isPromiseLike(result))
+        ? Promise.all(results).then(([a, b]) => mergeErrors(a, b))
+        : mergeErrors(results[0], results[1]);
+    };
+  }, [schema, validatorProp]);
+
   const changes = useWatcherMap<Partial<T>>({});
+  const dirty = useWatcherMap<DeepRecord<T, boolean>>({});
+  const isDirty = useWatcher(false);
   const errors = useWatcherMap<PRecordErrors<T>>({});
-  const keys = useWatcherMap<PRecord<T, number>>({});
-  const touched = useWatcherMap<PRecord<T, boolean>>({});
+  const serverErrors = useWatcherMap<PRecordErrors<T>>({});
+  const formError = useWatcher<string | undefined>(undefined);
+  const keys = useWatcherMap<DeepRecord<T, number>>({});
+  const touched = useWatcherMap<DeepRecord<T, boolean>>({});
+  const registeredFields = useWatcher<string[]>([]);
+  const canUndo = useWatcher(false);
+  const canRedo = useWatcher(false);
+  const visibility = useWatcherMap<DeepRecord<T, boolean>>(
+    getVisibility(conditions, initialValues)
+  );
+  const conflicts = useWatcherMap<DeepRecord<T, FieldConflict>>({});
   const values = useWatcherMap<Partial<T>>(initialValues);
   const formKey = useWatcher(0);
   const isSubmitting = useWatcher(false);
+  const isValidating = useWatcher(false);
+  const submitCount = useWatcher(0);
+  const isSubmitted = useWatcher(false);
+  const isSubmitSuccessful = useWatcher(false);
+  const lastSubmitResult = useWatcher<any>(undefined);
+  const lastSubmitError = useWatcher<unknown>(undefined);
+  const validating = useWatcherMap<DeepRecord<T, boolean>>({});
+  const required = useWatcherMap<DeepRecord<T, boolean>>({});
+  const isValid = useWatcher(true);
+  const errorCount = useWatcher(0);
   const initialValuesCopy = useWatcher<Partial<T>>(initialValues);
 
+  // the latest validation run per field path (or VALIDATE_ALL), used to
+  // discard results from stale async runs
+  const validationRuns = useRef(new Map<string | symbol, ValidationRun>());
+  const pendingValidations = useRef(new Set<string | symbol>());
+  // fields that have been blurred, used by the 'onTouched' mode
+  const blurred = useRef(new Set<string>());
+  // stable ids for the items of array fields, keyed by path
+  const fieldArrayIds = useRef(new Map<string, string[]>());
+  // input elements registered by fields, keyed by element
+  const fieldElements = useRef(
+    new Map<
+      any,
+      { path: string; sync?: boolean; format?: (value: any) => any }
+    >()
+  );
+  const lastFieldArrayId = useRef(0);
+  // undo and redo steps, most recent last
+  const historyPast = useRef<HistoryEntry[]>([]);
+  const historyFuture = useRef<HistoryEntry[]>([]);
+  // the latest history options, as the callbacks that record edits are only
+  // created once
+  const historyOptions = useRef<HistoryOptions | undefined>(undefined);
+  historyOptions.current = history === true ? {} : history || undefined;
+  // set while undo/redo apply values, so that they aren't recorded
+  const isApplyingHistory = useRef(false);
+  // the latest persist options, and the pending save of the draft
+  const persistOptions = useRef(persist);
+  persistOptions.current = persist;
+  const draftTimer = useRef<ReturnType<typeof setTimeout> | undefined>(
+    undefined
+  );
+  // the channel shared with other tabs, with tabSync
+  const tabChannel = useRef<BroadcastChannel | undefined>(undefined);
+  // set while edits from other tabs are applied, so that they aren't
+  // recorded or sent back
+  const isApplyingRemote = useRef(false);
+  // listeners added by form.watch
+  const watchListeners = useRef(new Set<() => void>());
+  // the number of mounted fields for each path
+  const registeredFieldCounts = useRef(new Map<string, number>());
+  // fields that were dropped by shouldUnregister
+  const unregisteredPaths = useRef(new Set<string>());
+  // field-level rules registered by mounted fields, keyed by path
+  const fieldRules = useRef(new Map<string, FieldRules>());
+  // set while submit validates the form, before isSubmitting is set
+  const isSubmitPending = useRef(false);
+
+  const setValidating = useCallback(
+    (key: string | symbol, isPending: boolean) => {
+      if (isPending) {
+        pendingValidations.current.add(key);
+      } else {
+        pendingValidations.current.delete(key);
+      }
+      if (typeof key === 'string') {
+        if (isPending) {
+          validating.setPath(key as any, true);
+        } else {
+          validating.clearPath(key as any, true);
+        }
+      }
+      isValidating.setState(pendingValidations.current.size > 0);
+    },
+    []
+  );
+
+  /**
+   * Run the form-level validator along with the field-level rules for the
+   * given paths. Field rule errors take precedence over the validator's.
+   */
+  const collectErrors = useCallback(
+    (
+      rulePaths: string[],
+      signal: AbortSignal
+    ): MaybePromise<PRecordErrors<T> | undefined> => {
+      const currentValues = values.getState();
+      const hiddenPaths = getHiddenPaths(conditions, currentValues);
+      const validationResult = validator?.(currentValues, { signal });
+      const ruleResults = rulePaths
+        .filter(path => fieldRules.current.has(path))
+        .filter(path => !hiddenPaths.some(hidden => isPathWithin(path, hidden)))
+        .map(path => {
+          const rules = fieldRules.current.get(path)!;
+          const value = getDeepPath(currentValues, path.split('.'));
+          return [path, validateFieldRules(rules, value, currentValues)];
+        }) as [string, MaybePromise<string | undefined>][];
+
+      const merge = (
+        result: PRecordErrors<T> | undefined,
+        fieldErrors: (string | undefined)[]
+      ) => {
+        let merged: any = result;
+        ruleResults.forEach(([path], i) => {
+          if (fieldErrors[i]) {
+            merged = setDeepPath(merged ?? {}, path.split('.'), fieldErrors[i]);
+          }
+        });
+        // ignore errors for fields that have been unregistered or are hidden
+        for (const path of [...unregisteredPaths.current, ...hiddenPaths]) {
+          const segments = path.split('.');
+          if (getDeepPath(merged, segments) !== undefined) {
+            merged = setDeepPath(merged, segments, undefined);
+          }
+        }
+        return merged as PRecordErrors<T> | undefined;
+      };
+
+      const fieldErrors = ruleResults.map(([, error]) => error);
+      if (
+        isPromiseLike(validationResult) ||
+        fieldErrors.some(error => isPromiseLike(error))
+      ) {
+        return Promise.all([validationResult, Promise.all(fieldErrors)]).then(
+          ([result, resolvedErrors]) => merge(result, resolvedErrors)
+        );
+      }
+      return merge(validationResult, fieldErrors as (string | undefined)[]);
+    },
+    [conditions, validator]
+  );
+
+  /**
+   * Run the validator and pass the result to `commit`. If the validator is
+   * async, the run is tracked in `isValidating`/`validating`, and the result
+   * is only committed if no newer run with the same key has started since.
+   * Stale runs resolve to the result of the latest run instead.
+   */
+  const runValidator = useCallback(
+    <R,>(
+      key: string | symbol,
+      rulePaths: string[],
+      commit: (result: PRecordErrors<T> | undefined) => R,
+      readCurrent: () => R
+    ): MaybePromise<R> => {
+      // cancel the previous run for this key
+      validationRuns.current.get(key)?.controller.abort();
+
+      const run: ValidationRun = {
+        controller: new AbortController(),
+        result: undefined,
+      };
+      validationRuns.current.set(key, run);
+
+      const validationResult = collectErrors(rulePaths, run.controller.signal);
+
+      if (!isPromiseLike<PRecordErrors<T> | undefined>(validationResult)) {
+        if (pendingValidations.current.has(key)) setValidating(key, false);
+        run.result = commit(validationResult);
+        return run.result as R;
+      }
+
+      const isLatestRun = () => validationRuns.current.get(key) === run;
+      const latestResult = () =>
+        validationRuns.current.has(key)
+          ? (validationRuns.current.get(key)!.result as MaybePromise<R>)
+          : readCurrent();
+
+      setValidating(key, true);
+      run.result = Promise.resolve(validationResult).then(
+        resolved => {
+          if (!isLatestRun()) return latestResult();
+          setValidating(key, false);
+          return commit(resolved);
+        },
+        error => {
+          if (!isLatestRun()) return latestResult();
+          setValidating(key, false);
+          throw error;
+        }
+      );
+      return run.result as Promise<R>;
+    },
+    [collectErrors]
+  );
+
+  /**
+   * Write the current values into the input elements of fields with syncMode
+   * 'ref', for the path and the paths nested under or above it, or for every
+   * element if no path is given.
+   */
+  const syncFieldElements = useCallback((path?: string) => {
+    for (const [element, field] of fieldElements.current) {
+      if (!field.sync) continue;
+      if (path !== undefined && !pathsOverlap(field.path, path)) continue;
+      const value = values.getPath(field.path as any);
+      setElementValue(element, field.format ? field.format(value) : value);
+    }
+  }, []);
+
+  const registerFieldElement = useCallback(
+    (
+      path: string,
+      element: any,
+      opts?: { sync?: boolean; format?: (value: any) => any }
+    ) => {
+      fieldElements.current.set(element, { path, ...opts });
+      return () => {
+        fieldElements.current.delete(element);
+      };
+    },
+    []
+  );
+
+  /** Focus the first element, in DOM order, of the fields that match. */
+  const focusFirstElement = useCallback(
+    (matches: (path: string) => boolean) => {
+      const elements = [...fieldElements.current]
+        .filter(([, field]) => matches(field.path))
+        .map(([element]) => element)
+        .sort(compareDocumentPosition);
+      if (elements.length === 0) return false;
+      focusElement(elements[0]);
+      return true;
+    },
+    []
+  );
+
+  const focusField = useCallback(
+    (path: string) =>
+      focusFirstElement(fieldPath => isPathWithin(fieldPath, path)),
+    []
+  );
+
+  const watch = useCallback(
+    (
+      pathOrPaths: string | string[],
+      callback: (value: any, prevValue: any) => void,
+      opts?: { source?: WatchSource }
+    ) => {
+      const map = { values, errors, touched }[opts?.source ?? 'values'];
+      const paths = Array.isArray(pathOrPaths) ? pathOrPaths : [pathOrPaths];
+      const read = () => paths.map(path => map.getPath(path as any));
+      let prev = read();
+      const listener = () => {
+        const next = read();
+        if (next.every((value, i) => Object.is(value, prev[i]))) return;
+        const prevValues = prev;
+        prev = next;
+        if (Array.isArray(pathOrPaths)) {
+          callback(next, prevValues);
+        } else {
+          callback(next[0], prevValues[0]);
+        }
+      };
+      watchListeners.current.add(listener);
+      return () => {
+        watchListeners.current.delete(listener);
+      };
+    },
+    []
+  );
+
+  const saveDraft = useCallback(() => {
+    clearTimeout(draftTimer.current);
+    draftTimer.current = undefined;
+    if (!persistOptions.current) return;
+    writeDraft(persistOptions.current, {
+      values: values.getState(),
+      changes: changes.getState(),
+    });
+  }, []);
+
+  const clearDraft = useCallback(() => {
+    clearTimeout(draftTimer.current);
+    draftTimer.current = undefined;
+    if (persistOptions.current) removeDraft(persistOptions.current);
+  }, []);
+
   const reset = useCallback(
     (opts?: { newValues?: Partial<T>; forceRender?: boolean }) => {
+      // discard any in-flight async validation
+      for (const run of validationRuns.current.values()) {
+        run.controller.abort();
+      }
+      validationRuns.current.clear();
+      pendingValidations.current.clear();
+      validating.setState({});
+      isValidating.setState(false);
+      blurred.current.clear();
+      fieldArrayIds.current.clear();
+      clearHistory();
+      clearDraft();
+      conflicts.setState({});
+      submitCount.setState(0);
+      isSubmitted.setState(false);
+      isSubmitSuccessful.setState(false);
+      lastSubmitResult.setState(undefined);
+      lastSubmitError.setState(undefined);
+
       changes.setState({});
+      dirty.setState({});
       errors.setState({});
+      serverErrors.setState({});
+      formError.setState(undefined);
       touched.setState({});
       if (opts?.newValues) {
         values.setState(opts.newValues);
@@ -220,6 +1247,11 @@ export const useWatcherForm = <T extends Record<string, any>>({
       } else {
         values.setState(initialValuesCopy.getState());
       }
+      // fields dropped by shouldUnregister are still unmounted
+      for (const path of unregisteredPaths.current) {
+        values.clearPath(path as any, true);
+      }
+      syncFieldElements();
       // force a re-render of the entire form
       if (opts?.forceRender) {
         formKey.setState(formKey.getState() + 1);
@@ -228,11 +1260,11 @@ export const useWatcherForm = <T extends Record<string, any>>({
     [initialValues]
   );
 
-  const validateAll = useCallback((): {
+  const validateAll = useCallback((): MaybePromise<{
     errors?: PRecordErrors<T>;
     hasErrors: boolean;
-  } => {
-    if (!validator) {
+  }> => {
+    if (!validator && fieldRules.current.size === 0) {
       return {
         hasErrors: false,
       };
@@ -240,72 +1272,225 @@ export const useWatcherForm = <T extends Record<string, any>>({
 
     // the validate function should return an object with the errors as strings
     // eg. { customerId: "Customer is required" }
-    const validationResult = validator?.(values.getState());
-    // only count truthy values
-    const hasErrors =
-      !!validationResult &&
-      Object.keys(validationResult).filter(
-        key => validationResult[key as keyof typeof validationResult]
-      ).length > 0;
-
-    errors.setState(validationResult ?? {});
-
-    return {
-      errors: validationResult,
-      hasErrors,
+    const commit = (validationResult: PRecordErrors<T> | undefined) => {
+      // only count truthy values, at any depth
+      const hasErrors = countErrors(validationResult) > 0;
+
+      errors.setState(validationResult ?? {});
+
+      return {
+        errors: validationResult,
+        hasErrors,
+      };
     };
-  }, [validator, values]);
 
-  const validateField = useCallback(
-    (path: string): string | undefined => {
-      const fullResult = validator?.(values.getState());
-      const fieldResult = getDeepPath(fullResult, path.split('.'));
-      if (fieldResult) {
-        errors.setPath(path as any, fieldResult);
-      } else {
-        // remove any errors for this field
-        errors.clearPath(path as any, true);
+    return runValidator(
+      VALIDATE_ALL,
+      [...fieldRules.current.keys()],
+      commit,
+      () => commit(errors.getState())
+    );
+  }, [runValidator]);
+
+  /**
+   * Get the fields that depend on the given path, including paths that are
+   * nested within it (or contain it).
+   */
+  const getDependents = useCallback(
+    (path: string): string[] =>
+      Object.entries(dependencies ?? {})
+        .filter(([, dependsOn]) =>
+          (dependsOn as string[] | undefined)?.some(dependency =>
+            pathsOverlap(dependency, path)
+          )
+        )
+        .map(([dependent]) => dependent),
+    [dependencies]
+  );
+
+  const validateFieldAndDependents = useCallback(
+    (path: string, visited: Set<string>): MaybePromise<string | undefined> => {
+      visited.add(path);
+
+      const commit = (fullResult: PRecordErrors<T> | undefined) => {
+        const fieldResult = getDeepPath(fullResult, path.split('.'));
+        if (fieldResult) {
+          errors.setPath(path as any, fieldResult);
+        } else {
+          // remove any errors for this field
+          errors.clearPath(path as any, true);
+        }
+        return fieldResult;
+      };
+
+      const result = runValidator(path, [path], commit, () =>
+        errors.getPath(path as any)
+      );
+
+      // refresh the errors of dependent fields the user has already seen
+      for (const dependent of getDependents(path)) {
+        if (visited.has(dependent)) continue;
+        if (
+          errors.getPath(dependent as any) ||
+          touched.getPath(dependent as any)
+        ) {
+          ignoreRejection(validateFieldAndDependents(dependent, visited));
+        }
       }
-      return fieldResult;
+
+      return result;
     },
-    [validator]
+    [runValidator, getDependents]
   );
 
+  const validateField = useCallback(
+    (path: string): MaybePromise<string | undefined> =>
+      validateFieldAndDependents(path, new Set()),
+    [validateFieldAndDependents]
+  );
+
+  const registerFieldRules = useCallback((path: string, rules: FieldRules) => {
+    fieldRules.current.set(path, rules);
+    if (!!rules.required !== !!required.getPath(path as any)) {
+      if (rules.required) {
+        required.setPath(path as any, true);
+      } else {
+        required.clearPath(path as any, true);
+      }
+    }
+    return () => {
+      // only remove the rules if they haven't been replaced since
+      if (fieldRules.current.get(path) === rules) {
+        fieldRules.current.delete(path);
+      }
+      // the rules are re-registered on every render, so wait until the
+      // commit has finished before clearing required
+      queueMicrotask(() => {
+        if (!fieldRules.current.has(path)) {
+          required.clearPath(path as any, true);
+        }
+      });
+    };
+  }, []);
+
   const submit = useCallback(
     async (e?: any) => {
       // prevent the browser making it's own POST request
       e?.preventDefault?.();
 
-      if (isSubmitting.getState()) return;
+      if (isSubmitting.getState() || isSubmitPending.current) return;
 
       if (!onSubmit) return;
 
-      // validate the form
-      const result = validateAll();
+      submitCount.setState(submitCount.getState() + 1);
+      isSubmitted.setState(true);
+
+      // validate the form, only waiting when the validator is async so that
+      // synchronous forms start submitting immediately. isSubmitting is only
+      // set once the form is valid, so block other submits until then
+      isSubmitPending.current = true;
+      let result: Awaited<ReturnType<typeof validateAll>>;
+      try {
+        const pending = validateAll();
+        result = isPromiseLike(pending) ? await pending : pending;
+      } finally {
+        isSubmitPending.current = false;
+      }
       if (result.hasErrors) {
-        onValidationErrors?.(result.errors);
+        onValidationErrors?.(result.errors ?? {});
+        if (shouldFocusError) {
+          focusFirstElement(path => !!errors.getPath(path as any));
+        }
         return;
       }
 
-      const valuesData = values.getState();
-      const changesData = changes.getState();
+      let valuesData = values.getState();
+      let changesData = changes.getState();
+      if (shouldStripHidden) {
+        for (const path of getHiddenPaths(conditions, valuesData)) {
+          valuesData = omitDeepPath(valuesData, path.split('.'));
+          changesData = omitDeepPath(changesData, path.split('.'));
+        }
+      }
 
+      // server errors are from the previous submission
+      clearServerErrors();
       isSubmitting.setState(true);
 
-      // errors should be caught in the submit function and returned
-      // as a result type
-      const response = await onSubmit(valuesData, changesData);
+      let response: any;
+      try {
+        response = await onSubmit(valuesData, changesData);
+      } catch (error) {
+        isSubmitSuccessful.setState(false);
+        lastSubmitError.setState(error);
+        // always release the form, even if onSubmit throws
+        isSubmitting.setState(false);
+        onSubmitError?.(error, valuesData);
+        onSubmitSettled?.(undefined, error, valuesData);
+        if (!onSubmitError) throw error;
+        return;
+      }
+
+      if (isServerErrorsResult<T>(response)) {
+        setServerErrors(response.serverErrors);
+        isSubmitSuccessful.setState(false);
+        isSubmitting.setState(false);
+        onSubmitSettled?.(response, undefined, valuesData);
+        return response;
+      }
 
+      clearDraft();
+      isSubmitSuccessful.setState(true);
+      lastSubmitResult.setState(response);
+      lastSubmitError.setState(undefined);
       isSubmitting.setState(false);
+      onSubmitSuccess?.(response, valuesData);
+      onSubmitSettled?.(response, undefined, valuesData);
 
       return response;
     },
-    [onSubmit]
+    [
+      onSubmit,
+      onSubmitSuccess,
+      onSubmitError,
+      onSubmitSettled,
+      shouldFocusError,
+      shouldStripHidden,
+      conditions,
+    ]
   );
 
+  const setServerErrors = useCallback((input: ServerErrors<T>) => {
+    const { fieldErrors, formError: message } = normalizeServerErrors(input);
+    serverErrors.setState(fieldErrors ?? {});
+    formError.setState(message);
+  }, []);
+
+  const clearServerErrors = useCallback(() => {
+    serverErrors.setState({});
+    formError.setState(undefined);
+  }, []);
+
+  /**
+   * Clear the server error for an edited field, including errors on nested
+   * fields, and errors on any parent field.
+   */
+  const clearServerError = useCallback((path: string) => {
+    const segments = path.split('.');
+    for (let i = 1; i < segments.length; i++) {
+      const parent = segments.slice(0, i).join('.');
+      if (typeof serverErrors.getPath(parent as any) === 'string') {
+        serverErrors.clearPath(parent as any, true);
+      }
+    }
+    if (serverErrors.getPath(path as any) !== undefined) {
+      serverErrors.clearPath(path as any, true);
+    }
+  }, []);
+
   const incrementKey = useCallback(
     (path: string) => {
-      const current = keys.getPath(path as PathOf<PRecord<T, number>>);
+      const current = keys.getPath(path as PathOf<DeepRecord<T, number>>);
       if (!current) {
         keys.setPath(path as any, 1);
       } else {
@@ -315,6 +1500,181 @@ export const useWatcherForm = <T extends Record<string, any>>({
     [keys]
   );
 
+  /**
+   * Record a change to a field, or remove it from `changes` if the value is
+   * equal to the initial value.
+   */
+  const trackChange = useCallback(
+    (path: string, value: any) => {
+      const initialValue = getDeepPath(
+        initialValuesCopy.getState(),
+        path.split('.')
+      );
+      if (isEqual(value, initialValue)) {
+        changes.clearPath(path as any, true);
+        dirty.clearPath(path as any, true);
+      } else {
+        changes.setPath(path as any, value);
+        dirty.setPath(path as any, true);
+      }
+    },
+    [isEqual]
+  );
+
+  /**
+   * Record an edit as an undo step, merging it into the previous step if it
+   * edits the same single field within `coalesceMs`. Clears the redo steps.
+   */
+  const recordHistory = (edits: HistoryEdit[], coalescePath?: string) => {
+    const options = historyOptions.current;
+    if (!options || isApplyingHistory.current || isApplyingRemote.current) {
+      return;
+    }
+    const now = Date.now();
+    const past = historyPast.current;
+    const last = past[past.length - 1];
+    if (
+      coalescePath !== undefined &&
+      last?.coalescePath === coalescePath &&
+      now - last.time <= (options.coalesceMs ?? 1000)
+    ) {
+      last.edits[0].after = edits[0].after;
+      last.time = now;
+    } else {
+      past.push({ edits, time: now, coalescePath });
+      if (past.length > (options.limit ?? 100)) past.shift();
+    }
+    historyFuture.current = [];
+    canUndo.setState(true);
+    canRedo.setState(false);
+  };
+
+  /**
+   * Set the values of an undo step, without recording them. Field array
+   * edits are applied with their `from` mapping, so that the per-item state
+   * and ids move with the items.
+   */
+  const applyHistory = (
+    steps: [path: string, value: any, from?: (number | undefined)[]][]
+  ) => {
+    isApplyingHistory.current = true;
+    try {
+      for (const [path, value, from] of steps) {
+        if (from) {
+          setFieldArray(path, value, from);
+          continue;
+        }
+        // only revalidate fields that are showing an error
+        setFieldValue(path, value, {
+          skipValidation: !errors.getPath(path as any),
+        });
+      }
+    } finally {
+      isApplyingHistory.current = false;
+    }
+  };
+
+  const undo = useCallback(() => {
+    const entry = historyPast.current.pop();
+    if (!entry) return;
+    applyHistory(
+      [...entry.edits]
+        .reverse()
+        .map(({ path, before, from }) => [
+          path,
+          before,
+          from && invertFieldArrayMapping(from, before?.length ?? 0),
+        ])
+    );
+    historyFuture.current.push(entry);
+    canUndo.setState(historyPast.current.length > 0);
+    canRedo.setState(true);
+  }, []);
+
+  const redo = useCallback(() => {
+    const entry = historyFuture.current.pop();
+    if (!entry) return;
+    applyHistory(
+      entry.edits.map(({ path, after, from }) => [path, after, from])
+    );
+    // don't merge later edits into a redone step
+    historyPast.current.push({ ...entry, coalescePath: undefined });
+    canUndo.setState(true);
+    canRedo.setState(historyFuture.current.length > 0);
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    historyPast.current = [];
+    historyFuture.current = [];
+    canUndo.setState(false);
+    canRedo.setState(false);
+  }, []);
+
+  /** Send edits made in this tab to the other tabs, with tabSync. */
+  const broadcastEdits = (edits: FieldEdit[]) => {
+    if (!tabChannel.current || isApplyingRemote.current) return;
+    for (const edit of edits) {
+      try {
+        tabChannel.current.postMessage(edit);
+      } catch {
+        // values that can't be cloned, eg. functions, aren't shared
+      }
+    }
+  };
+
+  /**
+   * Apply an edit from another tab, if this tab's value is the value it was
+   * based on. Otherwise the field was also edited here, so it's a conflict.
+   */
+  const applyRemoteEdit = useCallback(({ path, before, after }: FieldEdit) => {
+    const local = values.getPath(path as any);
+    if (isEqual(local, after)) {
+      conflicts.clearPath(path as any, true);
+      return;
+    }
+    if (!isEqual(local, before)) {
+      conflicts.setPath(path as any, { local, remote: after } as any);
+      return;
+    }
+    isApplyingRemote.current = true;
+    try {
+      setFieldValue(path, after, {
+        skipChanges: true,
+        // only revalidate fields that are showing an error
+        skipValidation: !errors.getPath(path as any),
+      });
+      // the edit isn't added to changes, but a change this tab already made
+      // to the field is kept in step with the value
+      if (changes.getPath(path as any) !== undefined) trackChange(path, after);
+      conflicts.clearPath(path as any, true);
+    } finally {
+      isApplyingRemote.current = false;
+    }
+  }, []);
+
+  const resolveConflict = useCallback(
+    (path: string, keep: 'local' | 'remote') => {
+      const conflict = conflicts.getPath(path as any) as
+        | FieldConflict
+        | undefined;
+      if (!conflict) return;
+      conflicts.clearPath(path as any, true);
+      if (keep === 'remote') {
+        setFieldValue(path, conflict.remote);
+      } else {
+        // based on the other tab's value, so that it's applied there
+        broadcastEdits([
+          {
+            path,
+            before: conflict.remote,
+            after: values.getPath(path as any),
+          },
+        ]);
+      }
+    },
+    []
+  );
+
   const setFieldValue = useCallback(
     (
       path: string,
@@ -328,20 +1688,35 @@ export const useWatcherForm = <T extends Record<string, any>>({
         skipChanges?: boolean;
       }
     ) => {
+      const edit = { path, before: values.getPath(path as any), after: value };
+      recordHistory([edit], path);
+      broadcastEdits([edit]);
       values.setPath(path as PathOf<Partial<T>>, value);
-      if (!opts?.skipChanges)
-        changes.setPath(path as PathOf<Partial<T>>, value);
-      if (!opts?.skipValidation) validateField(path);
-      if (!opts?.skipIncrementKey) incrementKey(path as any);
+      clearServerError(path);
+      if (!opts?.skipChanges) trackChange(path, value);
+      if (!opts?.skipValidation) ignoreRejection(validateField(path));
+      if (!opts?.skipIncrementKey) {
+        // remount the items of an array field that was replaced
+        fieldArrayIds.current.delete(path);
+        syncFieldElements(path);
+        incrementKey(path as any);
+      }
     },
     []
   );
 
   const setFieldValues = useCallback(
     (newValues: [path: string, value: any][]) => {
+      const edits = newValues.map(([path, value]) => ({
+        path,
+        before: values.getPath(path as any),
+        after: value,
+      }));
+      recordHistory(edits);
+      broadcastEdits(edits);
       changes.batch(() => {
         for (const item of newValues) {
-          changes.setPath(item[0] as any, item[1]);
+          trackChange(item[0], item[1]);
         }
       });
       values.batch(() => {
@@ -351,34 +1726,229 @@ export const useWatcherForm = <T extends Record<string, any>>({
       });
       // increment all of the associated keys
       for (const item of newValues) {
+        clearServerError(item[0]);
+        syncFieldElements(item[0]);
         incrementKey(item[0] as any);
       }
     },
     []
   );
 
+  /**
+   * Drop the state of a field that has unmounted, when shouldUnregister is
+   * set.
+   */
+  const dropField = useCallback((path: string) => {
+    validationRuns.current.get(path)?.controller.abort();
+    validationRuns.current.delete(path);
+    if (pendingValidations.current.has(path)) setValidating(path, false);
+    blurred.current.delete(path);
+    unregisteredPaths.current.add(path);
+    for (const map of [values, changes, dirty, errors, serverErrors, touched]) {
+      map.clearPath(path as any, true);
+    }
+  }, []);
+
+  const registerField = useCallback(
+    (path: string, opts?: { shouldUnregister?: boolean }) => {
+      const counts = registeredFieldCounts.current;
+      counts.set(path, (counts.get(path) ?? 0) + 1);
+      registeredFields.setState([...counts.keys()]);
+
+      if (unregisteredPaths.current.delete(path)) {
+        // restore the initial value of a field that was dropped, unless it
+        // has been given a value since
+        const initialValue = getDeepPath(
+          initialValuesCopy.getState(),
+          path.split('.')
+        );
+        if (
+          initialValue !== undefined &&
+          values.getPath(path as any) === undefined
+        ) {
+          values.setPath(path as any, initialValue);
+          syncFieldElements(path);
+          incrementKey(path);
+        }
+      }
+
+      return () => {
+        const count = (counts.get(path) ?? 1) - 1;
+        if (count > 0) {
+          counts.set(path, count);
+          return;
+        }
+        counts.delete(path);
+        registeredFields.setState([...counts.keys()]);
+
+        if (opts?.shouldUnregister ?? shouldUnregister) {
+          // wait until the commit has finished, as another field may
+          // register the same path, eg. a field array row that moved index
+          queueMicrotask(() => {
+            if (!counts.has(path)) dropField(path);
+          });
+        }
+      };
+    },
+    [shouldUnregister]
+  );
+
+  const createFieldArrayId = () => `${++lastFieldArrayId.current}`;
+
+  const getFieldArrayIds = useCallback((path: string, length: number) => {
+    let ids = fieldArrayIds.current.get(path) ?? [];
+    if (ids.length !== length) {
+      // the array was changed outside of setFieldArray
+      ids = Array.from({ length }, (_, i) => ids[i] ?? createFieldArrayId());
+      fieldArrayIds.current.set(path, ids);
+    }
+    return ids;
+  }, []);
+
+  const setFieldArray = useCallback(
+    (path: string, items: any[], from: (number | undefined)[]) => {
+      const ids = fieldArrayIds.current.get(path) ?? [];
+      fieldArrayIds.current.set(
+        path,
+        from.map(index =>
+          index === undefined
+            ? createFieldArrayId()
+            : (ids[index] ?? createFieldArrayId())
+        )
+      );
+
+      const edit = { path, before: values.getPath(path as any), after: items };
+      recordHistory([{ ...edit, from }]);
+      broadcastEdits([edit]);
+      values.setPath(path as any, items);
+      trackChange(path, items);
+      // move the per-field state along with each item
+      for (const map of [errors, serverErrors, touched, keys, validating]) {
+        reindexFieldArray(map, path, from);
+      }
+      // fields dropped by shouldUnregister stay dropped at their item's new
+      // index, and new items at that index aren't restored
+      reindexFieldArrayPaths(unregisteredPaths.current, path, from);
+    },
+    [trackChange]
+  );
+
+  /**
+   * Whether an input event should validate the field, based on the `mode`,
+   * or the `reValidateMode` once the field has an error or the form has been
+   * submitted.
+   */
+  const shouldValidateOn = useCallback(
+    (path: string, event: 'change' | 'blur') => {
+      const isRevalidating =
+        isSubmitted.getState() || !!errors.getPath(path as any);
+      if (isRevalidating && reValidateMode === `on${capitalize(event)}`) {
+        return true;
+      }
+      switch (mode) {
+        case 'all':
+          return true;
+        case 'onChange':
+          return event === 'change';
+        case 'onBlur':
+          return event === 'blur';
+        case 'onTouched':
+          return event === 'blur' || blurred.current.has(path);
+        default:
+          return false;
+      }
+    },
+    [mode, reValidateMode]
+  );
+
   const getInputEventHandlers = useCallback(
-    (path: string) => ({
-      onChange: (e: any) => {
-        const newValue =
-          typeof e === 'object' && e !== null && 'target' in e
-            ? e.target.value
-            : e;
-
-        // only revalidate the field onChange if the input is already in an error
-        // state, otherwise validate onBlur.
-        const prevHasError = !!errors.getPath(path as any);
+    (path: string, opts?: InputEventHandlerOptions) => ({
+      onChange: (...args: any[]) => {
+        const inputValue = extractValue(args, {
+          detectInputType: opts?.detectInputType ?? detectInputType,
+          extractors: [
+            ...(opts?.valueExtractors ?? []),
+            ...(valueExtractors ?? []),
+          ],
+        });
+        const newValue = opts?.parse ? opts.parse(inputValue) : inputValue;
+
         setFieldValue(path, newValue, {
           skipIncrementKey: true,
-          skipValidation: !prevHasError,
+          skipValidation: !shouldValidateOn(path, 'change'),
         });
       },
       onFocus: () => touched.setPath(path as any, true),
-      onBlur: () => validateField(path),
+      onBlur: () => {
+        const shouldValidate = shouldValidateOn(path, 'blur');
+        blurred.current.add(path);
+        if (shouldValidate) ignoreRejection(validateField(path));
+      },
     }),
-    []
+    [detectInputType, shouldValidateOn, valueExtractors]
   );
 
+  // keep computed fields up to date, however the values are set. Writing a
+  // computed value triggers this watcher again, so nested runs are skipped
+  // and the outer run carries on with the latest values
+  const isComputing = useRef(false);
+  const applyComputed = () => {
+    if (!computed || isComputing.current) return;
+    isComputing.current = true;
+    try {
+      for (const [pattern, compute] of Object.entries(computed)) {
+        for (const { path, indexes } of expandPath(
+          pattern,
+          values.getState()
+        )) {
+          const currentValues = values.getState();
+          const value = compute(currentValues, { path, indexes });
+          if (isEqual(value, getDeepPath(currentValues, path.split('.')))) {
+            continue;
+          }
+          values.setPath(path as any, value);
+          syncFieldElements(path);
+          incrementKey(path);
+        }
+      }
+    } finally {
+      isComputing.current = false;
+    }
+  };
+  values.watchState(applyComputed);
+
+  // keep visibility in sync with the values, however they are set, and drop
+  // the errors of fields that are hidden
+  values.watchState(() => {
+    const currentValues = values.getState();
+    visibility.setState(getVisibility(conditions, currentValues));
+    for (const path of getHiddenPaths(conditions, currentValues)) {
+      if (errors.getPath(path as any) !== undefined) {
+        errors.clearPath(path as any, true);
+      }
+    }
+  });
+
+  // notify form.watch listeners, they check their own paths for changes
+  const notifyWatchListeners = () => {
+    for (const listener of watchListeners.current) listener();
+  };
+  values.watchState(notifyWatchListeners);
+  errors.watchState(notifyWatchListeners);
+  touched.watchState(notifyWatchListeners);
+
+  // keep isDirty in sync with changes, however they are set
+  changes.watchState(() => {
+    isDirty.setState(Object.keys(changes.getState() ?? {}).length > 0);
+  });
+
+  // keep isValid and errorCount in sync with errors, however they are set
+  errors.watchState(() => {
+    const count = countErrors(errors.getState());
+    errorCount.setState(count);
+    isValid.setState(count === 0);
+  });
+
   useEffect(() => {
     // compare references
     if (initialValues !== values.getState()) {
@@ -386,33 +1956,109 @@ export const useWatcherForm = <T extends Record<string, any>>({
         reset({ newValues: initialValues, forceRender: true });
       }
       if (resetOnInitialValuesChange === 'OnlyIfClean') {
-        const isClean = Object.keys(changes.getState()).length === 0;
-        if (isClean) {
+        if (!isDirty.getState()) {
           reset({ newValues: initialValues, forceRender: true });
         }
       }
     }
   }, [initialValues]);
 
+  // share edits with the other tabs that have the same form open
+  useEffect(() => {
+    if (!tabSync || typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(`use-watcher-form:${tabSync.id}`);
+    channel.onmessage = (e: MessageEvent<FieldEdit>) => applyRemoteEdit(e.data);
+    tabChannel.current = channel;
+    return () => {
+      tabChannel.current = undefined;
+      channel.close();
+    };
+  }, [tabSync?.id]);
+
+  // save the draft once the user stops typing, and before unmounting
+  values.watchState(() => {
+    if (!persistOptions.current) return;
+    clearTimeout(draftTimer.current);
+    draftTimer.current = setTimeout(
+      saveDraft,
+      persistOptions.current.debounceMs ?? 500
+    );
+  });
+  useEffect(
+    () => () => {
+      if (draftTimer.current !== undefined) saveDraft();
+    },
+    []
+  );
+
+  // restore the draft, rebasing its edits onto the current initial values so
+  // that `changes` only holds what differs from them
+  useEffect(() => {
+    if (!persist) return;
+    const draft = readDraft(persist);
+    if (!draft) return;
+    setFieldValues(getDraftEdits(draft, initialValuesCopy.getState()));
+    // restoring isn't an edit that can be undone
+    clearHistory();
+  }, []);
+
+  // compute the derived fields of the initial values, after the initialValues
+  // check above so that the computed values don't count as a change of
+  // initialValues
+  useEffect(applyComputed, []);
+
   return {
     // watchers
     values,
     errors,
+    serverErrors,
+    formError,
     touched,
+    registeredFields,
+    visibility,
+    conflicts,
+    canUndo,
+    canRedo,
     changes,
+    isDirty,
+    dirty,
     isSubmitting,
+    submitCount,
+    isSubmitted,
+    isSubmitSuccessful,
+    lastSubmitResult,
+    lastSubmitError,
+    isValidating,
+    validating,
+    required,
+    isValid,
+    errorCount,
     keys,
     formKey,
     // actions
     submit,
     reset,
     incrementKey,
+    registerFieldRules,
+    registerField,
+    registerFieldElement,
+    focusField,
+    resolveConflict,
+    watch,
+    undo,
+    redo,
+    clearHistory,
+    setFieldArray,
+    getFieldArrayIds,
     setFieldValue,
     setFieldValues,
+    setServerErrors,
+    clearServerErrors,
     validateAll,
     validateField,
     // helpers
     debug,
+    syncMode,
     initialValues: initialValuesCopy.getState(),
     getInputEventHandlers,
   } satisfies WatcherForm<T>;
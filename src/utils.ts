@@ -0,0 +1,106 @@
+import type { PRecordErrors, ValidationResult } from './types';
+
+/**
+ * Returns true if the value is a Promise, or a Promise-like "thenable".
+ */
+export const isPromiseLike = <T = unknown>(
+  value: unknown
+): value is PromiseLike<T> =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as any).then === 'function';
+
+/**
+ * Immutably set a value at a path, creating objects (or arrays, for numeric
+ * segments) along the way. Returns the new root object.
+ */
+export const setDeepPath = (obj: any, path: string[], value: any): any => {
+  if (path.length === 0) return value;
+  const [head, ...rest] = path;
+  const current = obj ?? (/^\d+$/.test(head) ? [] : {});
+  const copy = Array.isArray(current) ? [...current] : { ...current };
+  (copy as any)[head] = setDeepPath((current as any)[head], rest, value);
+  return copy;
+};
+
+/**
+ * Immutably remove the value at a path. Returns the object unchanged if there
+ * is nothing at the path.
+ */
+export const omitDeepPath = (obj: any, path: string[]): any => {
+  if (obj === null || typeof obj !== 'object' || path.length === 0) return obj;
+  const [head, ...rest] = path;
+  if (!(head in obj)) return obj;
+  const copy = Array.isArray(obj) ? [...obj] : { ...obj };
+  if (rest.length === 0) {
+    delete (copy as any)[head];
+  } else {
+    (copy as any)[head] = omitDeepPath((obj as any)[head], rest);
+  }
+  return copy;
+};
+
+/**
+ * Deep merge two errors objects. Errors in `a` take precedence, errors from
+ * `b` are only used where `a` has no error at that path.
+ */
+export const mergeErrors = (a: any, b: any): any => {
+  if (!a) return b;
+  if (!b || typeof a !== 'object' || typeof b !== 'object') return a;
+  const merged: any = Array.isArray(a) ? [...a] : { ...a };
+  for (const key of Object.keys(b)) {
+    merged[key] = mergeErrors(merged[key], b[key]);
+  }
+  return merged;
+};
+
+/**
+ * Count the error messages in a (possibly nested) validation result. Only
+ * truthy leaf values are counted, so `{ address: { street: undefined } }`
+ * has no errors.
+ */
+export const countErrors = (
+  result: ValidationResult | PRecordErrors<any>
+): number => {
+  if (!result) return 0;
+  if (typeof result !== 'object') return 1;
+  return Object.values(result).reduce<number>(
+    (count, value) => count + countErrors(value as ValidationResult),
+    0
+  );
+};
+
+const isPlainObject = (value: any) => {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Deep equality for form values. Compares Dates by time, and arrays and plain
+ * objects by their contents. Anything else, eg. a Map, Set or File, is only
+ * equal to itself.
+ */
+export const isDeepEqual = (a: any, b: any): boolean => {
+  if (Object.is(a, b)) return true;
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  const isArray = Array.isArray(a) && Array.isArray(b);
+  if (
+    !isArray &&
+    !(
+      isPlainObject(a) &&
+      isPlainObject(b) &&
+      Object.getPrototypeOf(a) === Object.getPrototypeOf(b)
+    )
+  ) {
+    return false;
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every(key => isDeepEqual(a[key], b[key]))
+  );
+};
@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'bun:test';
+import { renderHook, act } from '@testing-library/react';
+import React from 'react';
+import { createFormHooks } from '../src/createFormHooks';
+import { useField } from '../src/useField';
+import { useWatcherForm } from '../src/useWatcherForm';
+import { WatcherFormProvider } from '../src/WatcherFormProvider';
+
+interface User {
+  name: string;
+  address: { street: string };
+  items: { name: string }[];
+}
+
+const initialValues: User = {
+  name: 'Jane',
+  address: { street: 'Main St' },
+  items: [{ name: 'Apple' }],
+};
+
+const FormWrapper = ({ children }: { children: React.ReactNode }) => {
+  const form = useWatcherForm<User>({ initialValues, debug: false });
+  return <WatcherFormProvider form={form}>{children}</WatcherFormProvider>;
+};
+
+const hooks = createFormHooks<User>();
+
+describe('createFormHooks', () => {
+  test('returns the same hooks as the untyped exports', () => {
+    expect(hooks.useField).toBe(useField);
+  });
+
+  test('typed hooks read and write the form values', () => {
+    const { result } = renderHook(
+      () => ({
+        street: hooks.useField('address.street'),
+        items: hooks.useFieldArray('items'),
+        form: hooks.useWatcherFormCtx(),
+      }),
+      { wrapper: FormWrapper }
+    );
+
+    expect(result.current.street.defaultValue).toBe('Main St');
+
+    act(() => {
+      result.current.street.onChange('High St');
+      result.current.items.append({ name: 'Banana' });
+    });
+
+    expect(result.current.form.values.getPath('address.street')).toBe(
+      'High St'
+    );
+    expect(result.current.form.values.getPath('items.1.name')).toBe('Banana');
+  });
+});
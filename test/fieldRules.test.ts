@@ -0,0 +1,32 @@
+import { describe, test, expect } from 'bun:test';
+import { validateFieldRules } from '../src/fieldRules';
+
+describe('validateFieldRules', () => {
+  test('min and max compare numeric values', () => {
+    expect(validateFieldRules({ min: 5 }, 4, {})).toBe('Must be at least 5');
+    expect(validateFieldRules({ min: 5 }, '5', {})).toBeUndefined();
+    expect(validateFieldRules({ max: 5 }, 6, {})).toBe('Must be at most 5');
+    expect(validateFieldRules({ max: 5 }, 5, {})).toBeUndefined();
+  });
+
+  test('min and max fail values that are not numbers', () => {
+    expect(validateFieldRules({ min: 5 }, 'abc', {})).toBe(
+      'Must be at least 5'
+    );
+    expect(
+      validateFieldRules({ max: { value: 5, message: 'Too many' } }, 'abc', {})
+    ).toBe('Too many');
+  });
+
+  test('empty values only fail required', () => {
+    expect(validateFieldRules({ min: 5 }, '', {})).toBeUndefined();
+    expect(validateFieldRules({ required: true, min: 5 }, '', {})).toBe(
+      'Required'
+    );
+  });
+
+  test('required fails an unchecked checkbox', () => {
+    expect(validateFieldRules({ required: true }, false, {})).toBe('Required');
+    expect(validateFieldRules({ required: true }, true, {})).toBeUndefined();
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  ValueExtractor,
+  customEventExtractor,
+  extractValue,
+  getElementValue,
+  getEventValue,
+  optionExtractor,
+  setElementValue,
+} from '../src/inputValue';
+
+const createInput = (type: string, value?: string) => {
+  const input = document.createElement('input');
+  input.type = type;
+  if (value !== undefined) input.value = value;
+  return input;
+};
+
+describe('getElementValue', () => {
+  test('reads checked for checkboxes', () => {
+    const input = createInput('checkbox');
+    expect(getElementValue(input)).toBe(false);
+    input.checked = true;
+    expect(getElementValue(input)).toBe(true);
+  });
+
+  test('reads numbers for number and range inputs', () => {
+    expect(getElementValue(createInput('number', '42'))).toBe(42);
+    expect(getElementValue(createInput('range', '7'))).toBe(7);
+    expect(getElementValue(createInput('number', ''))).toBeUndefined();
+  });
+
+  test('reads the YYYY-MM-DD string for date inputs', () => {
+    expect(getElementValue(createInput('date', '2024-02-29'))).toBe(
+      '2024-02-29'
+    );
+  });
+
+  test('reads a File[] for file inputs', () => {
+    expect(getElementValue(createInput('file'))).toEqual([]);
+  });
+
+  test('reads the selected values for multiple selects', () => {
+    const select = document.createElement('select');
+    select.multiple = true;
+    for (const value of ['a', 'b', 'c']) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.selected = value !== 'b';
+      select.appendChild(option);
+    }
+    expect(getElementValue(select)).toEqual(['a', 'c']);
+  });
+
+  test('reads value for other elements', () => {
+    expect(getElementValue(createInput('text', 'Jane'))).toBe('Jane');
+    expect(getElementValue({ value: 'plain' })).toBe('plain');
+  });
+});
+
+describe('getEventValue', () => {
+  test('returns values that are not events as-is', () => {
+    expect(getEventValue('Jane')).toBe('Jane');
+    expect(getEventValue(null)).toBeNull();
+    expect(getEventValue(['a'])).toEqual(['a']);
+  });
+
+  test('returns events without a target as-is', () => {
+    const event = new CustomEvent('change');
+    expect(getEventValue(event)).toBe(event);
+    expect(getEventValue({ target: null })).toEqual({ target: null });
+  });
+
+  test('reads e.target.value when detectInputType is false', () => {
+    const input = createInput('number', '42');
+    expect(getEventValue({ target: input }, { detectInputType: false })).toBe(
+      '42'
+    );
+  });
+});
+
+describe('value extractors', () => {
+  test('customEventExtractor reads the detail', () => {
+    const event = new CustomEvent('change', { detail: { id: 1 } });
+    expect(customEventExtractor.test(event)).toBe(true);
+    expect(customEventExtractor.extract(event)).toEqual({ id: 1 });
+    expect(customEventExtractor.test({ detail: 1 })).toBe(false);
+  });
+
+  test('optionExtractor reads the value of options', () => {
+    const option = { value: 'nz', label: 'New Zealand' };
+    expect(optionExtractor.test(option)).toBe(true);
+    expect(optionExtractor.extract(option)).toBe('nz');
+    expect(
+      optionExtractor.extract([option, { value: 'au', label: 'AU' }])
+    ).toEqual(['nz', 'au']);
+    expect(optionExtractor.test({ value: 'nz' })).toBe(false);
+    expect(optionExtractor.test([])).toBe(false);
+  });
+
+  test('extractValue uses the first matching extractor', () => {
+    const meta: ValueExtractor = {
+      test: (_, meta) => meta?.action === 'clear',
+      extract: () => null,
+    };
+    const option = { value: 'nz', label: 'New Zealand' };
+    const extractors = [meta, optionExtractor];
+
+    expect(extractValue([option, { action: 'select' }], { extractors })).toBe(
+      'nz'
+    );
+    expect(extractValue([option, { action: 'clear' }], { extractors })).toBe(
+      null
+    );
+  });
+
+  test('extractValue falls back to reading events', () => {
+    const input = createInput('checkbox');
+    input.checked = true;
+    expect(
+      extractValue([{ target: input }], { extractors: [optionExtractor] })
+    ).toBe(true);
+    expect(extractValue(['plain'])).toBe('plain');
+  });
+});
+
+describe('setElementValue', () => {
+  test('writes checked for checkboxes and radios', () => {
+    const checkbox = createInput('checkbox');
+    setElementValue(checkbox, true);
+    expect(checkbox.checked).toBe(true);
+
+    const radio = createInput('radio', 'b');
+    setElementValue(radio, 'b');
+    expect(radio.checked).toBe(true);
+    setElementValue(radio, 'a');
+    expect(radio.checked).toBe(false);
+  });
+
+  test('writes the selected options for multiple selects', () => {
+    const select = document.createElement('select');
+    select.multiple = true;
+    for (const value of ['a', 'b', 'c']) {
+      const option = document.createElement('option');
+      option.value = value;
+      select.appendChild(option);
+    }
+    setElementValue(select, ['b', 'c']);
+    expect(getElementValue(select)).toEqual(['b', 'c']);
+  });
+
+  test('writes numbers, dates and strings as the value', () => {
+    const number = createInput('number');
+    setElementValue(number, 42);
+    expect(number.value).toBe('42');
+
+    const date = createInput('date');
+    setElementValue(date, new Date('2024-02-29'));
+    expect(date.value).toBe('2024-02-29');
+
+    const text = createInput('text', 'Jane');
+    setElementValue(text, undefined);
+    expect(text.value).toBe('');
+  });
+});
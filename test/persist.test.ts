@@ -0,0 +1,106 @@
+import { describe, test, expect } from 'bun:test';
+import { getDraftEdits, readDraft, writeDraft } from '../src/persist';
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+  };
+};
+
+describe('persist', () => {
+  test('writes and reads a draft', () => {
+    const storage = createStorage();
+    const opts = { key: 'form', storage };
+    writeDraft(opts, { values: { name: 'Jane' }, changes: { name: 'Jane' } });
+
+    expect(readDraft(opts)).toEqual({
+      values: { name: 'Jane' },
+      changes: { name: 'Jane' },
+    });
+  });
+
+  test('removes the draft when there are no changes', () => {
+    const storage = createStorage();
+    const opts = { key: 'form', storage };
+    writeDraft(opts, { values: { name: 'Jane' }, changes: { name: 'Jane' } });
+    writeDraft(opts, { values: { name: 'John' }, changes: {} });
+
+    expect(storage.items.has('form')).toBe(false);
+  });
+
+  test('saves only the included paths, without the excluded paths', () => {
+    const storage = createStorage();
+    const opts = {
+      key: 'form',
+      storage,
+      include: ['account'],
+      exclude: ['account.password'],
+    };
+    const edits = {
+      note: 'hi',
+      account: { email: 'jane@example.com', password: 'secret' },
+    };
+    writeDraft(opts, { values: edits, changes: edits });
+
+    expect(JSON.parse(storage.items.get('form')!).values).toEqual({
+      account: { email: 'jane@example.com' },
+    });
+  });
+
+  test('migrates or discards drafts with an older version', () => {
+    const storage = createStorage();
+    writeDraft(
+      { key: 'form', storage, version: 1 },
+      { values: { fullName: 'Jane' }, changes: { fullName: 'Jane' } }
+    );
+
+    const migrated = readDraft({
+      key: 'form',
+      storage,
+      version: 2,
+      migrate: ({ values, changes }, version) =>
+        version === 1
+          ? {
+              values: { name: values.fullName },
+              changes: { name: changes.fullName },
+            }
+          : undefined,
+    });
+    expect(migrated).toEqual({
+      values: { name: 'Jane' },
+      changes: { name: 'Jane' },
+    });
+
+    expect(readDraft({ key: 'form', storage, version: 2 })).toBeUndefined();
+    expect(storage.items.has('form')).toBe(false);
+  });
+
+  test('discards drafts that are not valid JSON', () => {
+    const storage = createStorage();
+    storage.setItem('form', '{');
+
+    expect(readDraft({ key: 'form', storage })).toBeUndefined();
+    expect(storage.items.has('form')).toBe(false);
+  });
+
+  test('getDraftEdits restores edited items, or resized arrays whole', () => {
+    const initialValues = { items: [{ qty: 1 }, { qty: 2 }], tags: ['a'] };
+    const draft = {
+      values: { items: [{ qty: 1 }, { qty: 5 }], tags: ['a', 'b'] },
+      changes: { items: [null, { qty: 5 }], tags: ['a', 'b'] } as any,
+    };
+
+    expect(getDraftEdits(draft, initialValues)).toEqual([
+      ['items.1.qty', 5],
+      ['tags', ['a', 'b']],
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, test, expect } from 'bun:test';
+import { renderHook, act } from '@testing-library/react';
+import { schemaValidator } from '../src/schemaValidator';
+import type { StandardSchemaV1 } from '../src/schemaValidator';
+import { useWatcherForm } from '../src/useWatcherForm';
+
+const signal = new AbortController().signal;
+
+/** a minimal Standard Schema implementation for testing */
+const createSchema = (
+  validate: (value: any) => StandardSchemaV1.Issue[],
+  opts: { async?: boolean } = {}
+): StandardSchemaV1 => ({
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value: unknown) => {
+      const issues = validate(value);
+      const result = issues.length ? { issues } : { value };
+      return opts.async ? Promise.resolve(result) : result;
+    },
+  },
+});
+
+const userSchema = createSchema((value: any) => {
+  const issues: StandardSchemaV1.Issue[] = [];
+  if (!value.name) issues.push({ message: 'Name is required', path: ['name'] });
+  if (!value.address?.street) {
+    issues.push({
+      message: 'Street is required',
+      path: [{ key: 'address' }, { key: 'street' }],
+    });
+  }
+  (value.items ?? []).forEach((item: any, i: number) => {
+    if (!item.qty) {
+      issues.push({ message: 'Qty is required', path: ['items', i, 'qty'] });
+      issues.push({
+        message: 'Qty must be positive',
+        path: ['items', i, 'qty'],
+      });
+    }
+  });
+  return issues;
+});
+
+describe('schemaValidator', () => {
+  test('returns no errors for valid values', () => {
+    const validator = schemaValidator(userSchema);
+    expect(
+      validator({ name: 'Jane', address: { street: '1 Main St' } }, { signal })
+    ).toEqual({});
+  });
+
+  test('maps issue paths onto nested errors', () => {
+    const validator = schemaValidator(userSchema);
+    expect(validator({ items: [{ qty: 1 }, { qty: 0 }] }, { signal })).toEqual({
+      name: 'Name is required',
+      address: { street: 'Street is required' },
+      items: [undefined, { qty: 'Qty is required' }],
+    });
+  });
+
+  test('supports async schemas', async () => {
+    const asyncSchema = createSchema(
+      () => [{ message: 'Name is required', path: ['name'] }],
+      { async: true }
+    );
+    const validator = schemaValidator(asyncSchema);
+    expect(await validator({}, { signal })).toEqual({
+      name: 'Name is required',
+    });
+  });
+
+  test('ignores issues without a path', () => {
+    const rootSchema = createSchema(() => [{ message: 'Invalid' }]);
+    expect(schemaValidator(rootSchema)({}, { signal })).toEqual({});
+  });
+});
+
+describe('useWatcherForm schema prop', () => {
+  test('validates with the schema', () => {
+    const { result } = renderHook(() =>
+      useWatcherForm({
+        initialValues: { name: '', address: { street: '1 Main St' } },
+        schema: userSchema,
+      })
+    );
+
+    let validationResult: any;
+    act(() => {
+      validationResult = result.current.validateAll();
+    });
+
+    expect(validationResult.hasErrors).toBe(true);
+    expect(result.current.errors.getPath('name')).toBe('Name is required');
+  });
+
+  test('merges schema errors with the validator', () => {
+    const { result } = renderHook(() =>
+      useWatcherForm({
+        initialValues: {} as any,
+        schema: userSchema,
+        validator: () => ({ name: 'Validator error' }),
+      })
+    );
+
+    act(() => {
+      result.current.validateAll();
+    });
+
+    expect(result.current.errors.getState()).toEqual({
+      name: 'Validator error',
+      address: { street: 'Street is required' },
+    });
+  });
+});
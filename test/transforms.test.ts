@@ -0,0 +1,44 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  asDate,
+  asInteger,
+  asNumber,
+  asTrimmed,
+  emptyToNull,
+} from '../src/transforms';
+
+describe('transforms', () => {
+  test('asNumber', () => {
+    expect(asNumber.parse!('12.5')).toBe(12.5);
+    expect(asNumber.parse!('')).toBeUndefined();
+    expect(asNumber.parse!('abc')).toBeUndefined();
+    expect(asNumber.format!(undefined)).toBe('');
+    expect(asNumber.format!(3)).toBe(3);
+  });
+
+  test('asInteger', () => {
+    expect(asInteger.parse!('12.5')).toBe(12);
+    expect(asInteger.parse!('')).toBeUndefined();
+    expect(asInteger.parse!('abc')).toBeUndefined();
+  });
+
+  test('asTrimmed', () => {
+    expect(asTrimmed.parse!('  Jane  ')).toBe('Jane');
+    expect(asTrimmed.format).toBeUndefined();
+  });
+
+  test('asDate', () => {
+    const date = asDate.parse!('2024-02-29');
+    expect(date).toBeInstanceOf(Date);
+    expect(asDate.format!(date)).toBe('2024-02-29');
+    expect(asDate.parse!('')).toBeUndefined();
+    expect(asDate.parse!('not a date')).toBeUndefined();
+    expect(asDate.format!(undefined)).toBe('');
+  });
+
+  test('emptyToNull', () => {
+    expect(emptyToNull.parse!('')).toBeNull();
+    expect(emptyToNull.parse!('Jane')).toBe('Jane');
+    expect(emptyToNull.format!(null)).toBe('');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Compile-time checks for `createFormHooks`, run by `tsc --noEmit`. The
+ * function is never called, the hooks are only used for their types.
+ */
+import { asNumber, createFormHooks } from '../../src';
+
+interface User {
+  name: string;
+  age: number;
+  address: { street: string };
+  items: { name: string; qty: number }[];
+}
+
+type Equal<A, B> =
+  (<X>() => X extends A ? 1 : 2) extends <X>() => X extends B ? 1 : 2
+    ? true
+    : false;
+const expectType = <T extends true>(_: T) => {};
+
+const { useField, useControlledField, useFieldAria, useFieldArray } =
+  createFormHooks<User>();
+
+export const typeChecks = () => {
+  // paths are checked against the form values
+  useField('address.street');
+  useField('items.0.qty');
+  // @ts-expect-error misspelled path
+  useField('adress.street');
+  // @ts-expect-error misspelled path
+  useControlledField('nmae');
+  // @ts-expect-error misspelled path
+  useFieldAria('address.zip');
+  // @ts-expect-error not an array
+  useFieldArray('name');
+
+  // values are typed from the path
+  const street = useField('address.street');
+  expectType<Equal<typeof street.defaultValue, string | undefined>>(true);
+  street.onChange('Main St');
+  // @ts-expect-error the value is a string
+  street.onChange(42);
+
+  const age = useControlledField('age');
+  expectType<Equal<typeof age.value, number | undefined>>(true);
+
+  // or from format/parse, asNumber formats to any input value
+  const price = useControlledField('age', asNumber);
+  expectType<Equal<typeof price.value, any>>(true);
+
+  // array items are typed
+  const items = useFieldArray('items');
+  items.append({ name: 'Apple', qty: 1 });
+  // @ts-expect-error missing qty
+  items.append({ name: 'Apple' });
+};
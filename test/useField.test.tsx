@@ -2,6 +2,9 @@ import { describe, test, expect, beforeEach, mock, jest } from 'bun:test';
 import { render, renderHook, act, fireEvent } from '@testing-library/react';
 import React from 'react';
 import { useField } from '../src/useField';
+import { useFieldAria } from '../src/useFieldAria';
+import { asNumber } from '../src/transforms';
+import { optionExtractor } from '../src/inputValue';
 import { useWatcherForm } from '../src/useWatcherForm';
 import { WatcherFormProvider } from '../src/WatcherFormProvider';
 import { useWatcherFormCtx } from '../src/WatcherFormCtx';
@@ -321,6 +324,491 @@ describe('useField', () => {
     });
   });
 
+  describe('Field Rules', () => {
+    const renderFieldWithForm = (
+      path: string,
+      opts: any,
+      formProps: { initialValues?: any; validator?: any } = {}
+    ) =>
+      renderHook(
+        () => ({ field: useField(path, opts), form: useWatcherFormCtx() }),
+        {
+          wrapper: ({ children }) => (
+            <FormWrapper
+              initialValues={formProps.initialValues ?? {}}
+              validator={formProps.validator}
+            >
+              {children}
+            </FormWrapper>
+          ),
+        }
+      );
+
+    test('required rule sets an error on validateField', () => {
+      const { result } = renderFieldWithForm('name', { required: true });
+
+      act(() => {
+        result.current.form.validateField('name');
+      });
+
+      expect(result.current.form.errors.getPath('name')).toBe('Required');
+    });
+
+    test('uses custom messages', () => {
+      const { result } = renderFieldWithForm(
+        'age',
+        { min: { value: 18, message: 'Must be an adult' } },
+        { initialValues: { age: 12 } }
+      );
+
+      act(() => {
+        result.current.form.validateField('age');
+      });
+
+      expect(result.current.form.errors.getPath('age')).toBe(
+        'Must be an adult'
+      );
+    });
+
+    test('merges field rules with the form validator in validateAll', () => {
+      const validator = (values: any) => ({
+        email: values.email ? undefined : 'Email is required',
+      });
+      const { result } = renderFieldWithForm(
+        'name',
+        { minLength: 3 },
+        { initialValues: { name: 'Al' }, validator }
+      );
+
+      let validationResult: any;
+      act(() => {
+        validationResult = result.current.form.validateAll();
+      });
+
+      expect(validationResult.hasErrors).toBe(true);
+      expect(result.current.form.errors.getState()).toEqual({
+        email: 'Email is required',
+        name: 'Must be at least 3 characters',
+      });
+    });
+
+    test('supports async validate functions', async () => {
+      const { result } = renderFieldWithForm(
+        'username',
+        {
+          validate: async (value: string) =>
+            value === 'taken' ? 'Username is taken' : undefined,
+        },
+        { initialValues: { username: 'taken' } }
+      );
+
+      await act(async () => {
+        await result.current.form.validateField('username');
+      });
+
+      expect(result.current.form.errors.getPath('username')).toBe(
+        'Username is taken'
+      );
+    });
+
+    test('removes the rules when the field unmounts', () => {
+      let form: any;
+      const RequiredField = () => {
+        useField('name', { required: true });
+        return null;
+      };
+      const Form = ({ showField }: { showField: boolean }) => {
+        form = useWatcherForm({ initialValues: {} });
+        return (
+          <WatcherFormProvider form={form}>
+            {showField && <RequiredField />}
+          </WatcherFormProvider>
+        );
+      };
+
+      const { rerender } = render(<Form showField />);
+      act(() => {
+        form.validateAll();
+      });
+      expect(form.errors.getPath('name')).toBe('Required');
+
+      rerender(<Form showField={false} />);
+      let validationResult: any;
+      act(() => {
+        validationResult = form.validateAll();
+      });
+      expect(validationResult.hasErrors).toBe(false);
+    });
+  });
+
+  describe('Field Registration', () => {
+    const renderToggleForm = (formProps: any, fieldOpts?: any) => {
+      let form: any;
+      const Field = () => {
+        const { key, ...field } = useField('nickname', fieldOpts);
+        return <input {...field} key={key} data-testid="nickname" />;
+      };
+      const Form = ({ showField }: { showField: boolean }) => {
+        form = useWatcherForm({ debug: false, ...formProps });
+        return (
+          <WatcherFormProvider form={form}>
+            {showField && <Field />}
+          </WatcherFormProvider>
+        );
+      };
+      const utils = render(<Form showField />);
+      return { ...utils, Form, getForm: () => form };
+    };
+
+    test('tracks mounted fields in registeredFields', () => {
+      const { rerender, Form, getForm } = renderToggleForm({
+        initialValues: {},
+      });
+      expect(getForm().registeredFields.getState()).toEqual(['nickname']);
+
+      rerender(<Form showField={false} />);
+      expect(getForm().registeredFields.getState()).toEqual([]);
+    });
+
+    test('keeps the value of unmounted fields by default', async () => {
+      const { rerender, Form, getForm } = renderToggleForm({
+        initialValues: { nickname: 'Johnny' },
+      });
+
+      await act(async () => {
+        rerender(<Form showField={false} />);
+      });
+      expect(getForm().values.getPath('nickname')).toBe('Johnny');
+    });
+
+    test('shouldUnregister drops the field state and restores it on mount', async () => {
+      const { rerender, Form, getForm } = renderToggleForm({
+        initialValues: { nickname: 'Johnny' },
+        shouldUnregister: true,
+        validator: (values: any) => ({
+          nickname: values.nickname ? undefined : 'Required',
+        }),
+      });
+
+      act(() => {
+        getForm().setFieldValue('nickname', 'Jo');
+        getForm().touched.setPath('nickname', true);
+      });
+
+      await act(async () => {
+        rerender(<Form showField={false} />);
+      });
+
+      expect(getForm().values.getPath('nickname')).toBeUndefined();
+      expect(getForm().changes.getState()).toEqual({});
+      expect(getForm().touched.getPath('nickname')).toBeUndefined();
+
+      let validationResult: any;
+      act(() => {
+        validationResult = getForm().validateAll();
+      });
+      expect(validationResult.hasErrors).toBe(false);
+
+      await act(async () => {
+        rerender(<Form showField />);
+      });
+      expect(getForm().values.getPath('nickname')).toBe('Johnny');
+    });
+
+    test('per-field shouldUnregister overrides the form option', async () => {
+      const { rerender, Form, getForm } = renderToggleForm(
+        { initialValues: { nickname: 'Johnny' } },
+        { shouldUnregister: true }
+      );
+
+      await act(async () => {
+        rerender(<Form showField={false} />);
+      });
+      expect(getForm().values.getPath('nickname')).toBeUndefined();
+    });
+  });
+
+  describe('Input Types', () => {
+    test('stores checkboxes as booleans', () => {
+      let form: any;
+      const Checkbox = () => {
+        form = useWatcherFormCtx();
+        const { key, defaultValue, ...field } = useField('newsletter');
+        return (
+          <input
+            {...field}
+            key={key}
+            type="checkbox"
+            defaultChecked={!!defaultValue}
+            data-testid="checkbox"
+          />
+        );
+      };
+
+      const { getByTestId } = render(
+        <FormWrapper initialValues={{ newsletter: false }}>
+          <Checkbox />
+        </FormWrapper>
+      );
+
+      fireEvent.click(getByTestId('checkbox'));
+      expect(form.values.getPath('newsletter')).toBe(true);
+    });
+
+    test('detectInputType: false reads e.target.value', () => {
+      let form: any;
+      const NumberInput = () => {
+        form = useWatcherFormCtx();
+        const { key, ...field } = useField('age', { detectInputType: false });
+        return (
+          <input {...field} key={key} type="number" data-testid="number" />
+        );
+      };
+
+      const { getByTestId } = render(
+        <FormWrapper initialValues={{}}>
+          <NumberInput />
+        </FormWrapper>
+      );
+
+      fireEvent.change(getByTestId('number'), { target: { value: '42' } });
+      expect(form.values.getPath('age')).toBe('42');
+    });
+
+    test('valueExtractors turn payloads into the stored value', () => {
+      const { result } = renderHook(
+        () => ({
+          field: useField('country', { valueExtractors: [optionExtractor] }),
+          form: useWatcherFormCtx(),
+        }),
+        {
+          wrapper: ({ children }) => (
+            <FormWrapper initialValues={{}}>{children}</FormWrapper>
+          ),
+        }
+      );
+
+      act(() => {
+        result.current.field.onChange(
+          { value: 'nz', label: 'New Zealand' },
+          { action: 'select-option' }
+        );
+      });
+
+      expect(result.current.form.values.getPath('country')).toBe('nz');
+    });
+  });
+
+  describe('Accessibility', () => {
+    test('returns ids and ARIA props derived from the path and error', () => {
+      const validator = () => ({ email: 'Invalid email' });
+      const { result } = renderHook(
+        () => ({
+          field: useField('email', { required: true }),
+          aria: useFieldAria('email', { hasDescription: true }),
+          form: useWatcherFormCtx(),
+        }),
+        {
+          wrapper: ({ children }) => (
+            <FormWrapper initialValues={{}} validator={validator}>
+              {children}
+            </FormWrapper>
+          ),
+        }
+      );
+
+      const { inputProps, labelProps, errorProps, descriptionProps } =
+        result.current.aria;
+      expect(inputProps.id).toContain('email');
+      expect(labelProps.htmlFor).toBe(inputProps.id);
+      expect(inputProps['aria-invalid']).toBe(false);
+      expect(inputProps['aria-required']).toBe(true);
+      expect(inputProps['aria-describedby']).toBe(descriptionProps.id);
+
+      act(() => {
+        result.current.form.validateField('email');
+      });
+
+      expect(result.current.aria.inputProps['aria-invalid']).toBe(true);
+      expect(result.current.aria.inputProps['aria-describedby']).toBe(
+        `${descriptionProps.id} ${errorProps.id}`
+      );
+    });
+
+    test('aria-required follows the registered required rule', async () => {
+      const { result, rerender } = renderHook(
+        ({ required }: { required: boolean }) => {
+          useField('email', { required });
+          return useFieldAria('email');
+        },
+        {
+          initialProps: { required: true },
+          wrapper: ({ children }) => <FormWrapper>{children}</FormWrapper>,
+        }
+      );
+      expect(result.current.inputProps['aria-required']).toBe(true);
+
+      await act(async () => {
+        rerender({ required: false });
+      });
+      expect(result.current.inputProps['aria-required']).toBeUndefined();
+    });
+
+    test('ids are unique across forms', () => {
+      const Email = ({ onId }: { onId: (id: string) => void }) => {
+        onId(useFieldAria('email').inputProps.id);
+        return null;
+      };
+      const ids: string[] = [];
+      render(
+        <>
+          <FormWrapper>
+            <Email onId={id => (ids[0] = id)} />
+          </FormWrapper>
+          <FormWrapper>
+            <Email onId={id => (ids[1] = id)} />
+          </FormWrapper>
+        </>
+      );
+      expect(ids[0]).not.toBe(ids[1]);
+    });
+
+    test('throws outside a form', () => {
+      expect(() => renderHook(() => useFieldAria('email'))).toThrow(
+        'useFieldAria must be used within a WatcherFormContext'
+      );
+    });
+  });
+
+  describe('Focus', () => {
+    const Inputs = ({ onForm }: { onForm: (form: any) => void }) => {
+      onForm(useWatcherFormCtx());
+      const { key: nameKey, ...name } = useField('name');
+      const { key: emailKey, ...email } = useField('email');
+      return (
+        <>
+          <input {...name} key={nameKey} data-testid="name" />
+          <input {...email} key={emailKey} data-testid="email" />
+        </>
+      );
+    };
+
+    test('focusField focuses the input of a field', () => {
+      let form: any;
+      const { getByTestId } = render(
+        <FormWrapper initialValues={{}}>
+          <Inputs onForm={f => (form = f)} />
+        </FormWrapper>
+      );
+
+      act(() => {
+        expect(form.focusField('email')).toBe(true);
+      });
+      expect(document.activeElement).toBe(getByTestId('email'));
+      expect(form.focusField('missing')).toBe(false);
+    });
+
+    test('shouldFocusError focuses the first errored field in DOM order', async () => {
+      let form: any;
+      const Wrapper = ({ children }: { children: React.ReactNode }) => {
+        const form = useWatcherForm({
+          initialValues: {},
+          validator: () => ({ email: 'Required', name: 'Required' }),
+          onSubmit: async () => {},
+          shouldFocusError: true,
+        });
+        return <WatcherFormProvider form={form}>{children}</WatcherFormProvider>;
+      };
+
+      const { getByTestId } = render(
+        <Wrapper>
+          <Inputs onForm={f => (form = f)} />
+        </Wrapper>
+      );
+
+      await act(async () => {
+        await form.submit();
+      });
+
+      expect(document.activeElement).toBe(getByTestId('name'));
+    });
+  });
+
+  describe('Sync Mode', () => {
+    test("syncMode 'ref' writes values into the input without remounting", () => {
+      let form: any;
+      const RefInput = () => {
+        form = useWatcherFormCtx();
+        const { key, ...field } = useField('name', { syncMode: 'ref' });
+        return <input {...field} key={key} data-testid="ref-input" />;
+      };
+
+      const { getByTestId } = render(
+        <FormWrapper initialValues={{ name: 'Jane' }}>
+          <RefInput />
+        </FormWrapper>
+      );
+
+      const input = getByTestId('ref-input') as HTMLInputElement;
+      expect(input.value).toBe('Jane');
+
+      act(() => {
+        form.setFieldValue('name', 'John');
+      });
+      expect(getByTestId('ref-input')).toBe(input);
+      expect(input.value).toBe('John');
+
+      act(() => {
+        form.setFieldValues([['name', 'Jim']]);
+      });
+      expect(input.value).toBe('Jim');
+
+      act(() => {
+        form.reset();
+      });
+      expect(getByTestId('ref-input')).toBe(input);
+      expect(input.value).toBe('Jane');
+    });
+  });
+
+  describe('Transforms', () => {
+    test('parse converts the input before it is stored', () => {
+      const { result } = renderHook(
+        () => ({ field: useField('age', asNumber), form: useWatcherFormCtx() }),
+        {
+          wrapper: ({ children }) => (
+            <FormWrapper initialValues={{}}>{children}</FormWrapper>
+          ),
+        }
+      );
+
+      act(() => {
+        result.current.field.onChange({ target: { value: '42' } });
+      });
+
+      expect(result.current.form.values.getPath('age')).toBe(42);
+    });
+
+    test('format converts the stored value into the defaultValue', () => {
+      const { result } = renderHook(
+        () =>
+          useField('tags', {
+            parse: (value: string) => value.split(','),
+            format: (value: string[]) => value.join(','),
+          }),
+        {
+          wrapper: ({ children }) => (
+            <FormWrapper initialValues={{ tags: ['a', 'b'] }}>
+              {children}
+            </FormWrapper>
+          ),
+        }
+      );
+
+      expect(result.current.defaultValue).toBe('a,b');
+    });
+  });
+
   describe('Edge Cases', () => {
     test('handles null and undefined values', () => {
       const { result } = renderHook(() => useField('nullField'), {
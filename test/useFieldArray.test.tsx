@@ -0,0 +1,224 @@
+import { describe, test, expect } from 'bun:test';
+import { render, renderHook, act } from '@testing-library/react';
+import React from 'react';
+import { useField } from '../src/useField';
+import { useFieldArray } from '../src/useFieldArray';
+import { useWatcherForm } from '../src/useWatcherForm';
+import { WatcherFormProvider } from '../src/WatcherFormProvider';
+import { useWatcherFormCtx } from '../src/WatcherFormCtx';
+
+const initialValues = {
+  items: [
+    { name: 'Apple', qty: 1 },
+    { name: 'Banana', qty: 2 },
+    { name: 'Cherry', qty: 3 },
+  ],
+};
+
+const FormWrapper = ({ children }: { children: React.ReactNode }) => {
+  const form = useWatcherForm({ initialValues, debug: false });
+  return <WatcherFormProvider form={form}>{children}</WatcherFormProvider>;
+};
+
+const renderFieldArray = () =>
+  renderHook(
+    () => ({ fieldArray: useFieldArray('items'), form: useWatcherFormCtx() }),
+    { wrapper: FormWrapper }
+  );
+
+const names = (form: any) =>
+  form.values.getPath('items').map((item: any) => item.name);
+
+describe('useFieldArray', () => {
+  test('throws error when used outside WatcherFormProvider', () => {
+    expect(() => {
+      renderHook(() => useFieldArray('items'));
+    }).toThrow('useFieldArray must be used within a WatcherFormContext');
+  });
+
+  test('returns a field for each item', () => {
+    const { result } = renderFieldArray();
+    const { fields } = result.current.fieldArray;
+
+    expect(fields.map(field => field.path)).toEqual([
+      'items.0',
+      'items.1',
+      'items.2',
+    ]);
+    expect(new Set(fields.map(field => field.id)).size).toBe(3);
+  });
+
+  test('append, prepend and insert add items', () => {
+    const { result } = renderFieldArray();
+
+    act(() => {
+      result.current.fieldArray.append({ name: 'Date', qty: 4 });
+    });
+    act(() => {
+      result.current.fieldArray.prepend({ name: 'Apricot', qty: 0 });
+    });
+    act(() => {
+      result.current.fieldArray.insert(2, [{ name: 'Avocado', qty: 0 }]);
+    });
+
+    expect(names(result.current.form)).toEqual([
+      'Apricot',
+      'Apple',
+      'Avocado',
+      'Banana',
+      'Cherry',
+      'Date',
+    ]);
+    expect(result.current.fieldArray.fields).toHaveLength(6);
+  });
+
+  test('remove keeps stable ids for the remaining items', () => {
+    const { result } = renderFieldArray();
+    const [, second, third] = result.current.fieldArray.fields;
+
+    act(() => {
+      result.current.fieldArray.remove(0);
+    });
+
+    expect(names(result.current.form)).toEqual(['Banana', 'Cherry']);
+    expect(result.current.fieldArray.fields.map(field => field.id)).toEqual([
+      second.id,
+      third.id,
+    ]);
+  });
+
+  test('move and swap reorder items', () => {
+    const { result } = renderFieldArray();
+
+    act(() => {
+      result.current.fieldArray.move(0, 2);
+    });
+    expect(names(result.current.form)).toEqual(['Banana', 'Cherry', 'Apple']);
+
+    act(() => {
+      result.current.fieldArray.swap(0, 1);
+    });
+    expect(names(result.current.form)).toEqual(['Cherry', 'Banana', 'Apple']);
+  });
+
+  test('replace sets all items with new ids', () => {
+    const { result } = renderFieldArray();
+    const ids = result.current.fieldArray.fields.map(field => field.id);
+
+    act(() => {
+      result.current.fieldArray.replace([{ name: 'Kiwi', qty: 1 }]);
+    });
+
+    expect(names(result.current.form)).toEqual(['Kiwi']);
+    expect(ids).not.toContain(result.current.fieldArray.fields[0].id);
+  });
+
+  test('errors, touched and keys follow their item', () => {
+    const { result } = renderFieldArray();
+
+    act(() => {
+      result.current.form.errors.setPath('items.2.qty', 'Too many');
+      result.current.form.touched.setPath('items.2.name', true);
+      result.current.form.incrementKey('items.2.name');
+    });
+
+    act(() => {
+      result.current.fieldArray.remove(1);
+    });
+
+    const { form } = result.current;
+    expect(form.errors.getPath('items.1.qty')).toBe('Too many');
+    expect(form.errors.getPath('items.2')).toBeUndefined();
+    expect(form.touched.getPath('items.1.name')).toBe(true);
+    expect(form.keys.getPath('items.1.name')).toBe(1);
+  });
+
+  test('undo moves errors, touched and ids back with their item', () => {
+    const { result } = renderHook(
+      () => ({ fieldArray: useFieldArray('items'), form: useWatcherFormCtx() }),
+      {
+        wrapper: ({ children }) => {
+          const form = useWatcherForm({ initialValues, history: true });
+          return (
+            <WatcherFormProvider form={form}>{children}</WatcherFormProvider>
+          );
+        },
+      }
+    );
+    const ids = result.current.fieldArray.fields.map(field => field.id);
+
+    act(() => {
+      result.current.form.errors.setPath('items.2.qty', 'Too many');
+      result.current.form.touched.setPath('items.2.name', true);
+    });
+    act(() => {
+      result.current.fieldArray.remove(1);
+    });
+    act(() => {
+      result.current.form.undo();
+    });
+
+    const { form, fieldArray } = result.current;
+    expect(names(form)).toEqual(['Apple', 'Banana', 'Cherry']);
+    expect(form.errors.getPath('items.2.qty')).toBe('Too many');
+    expect(form.touched.getPath('items.2.name')).toBe(true);
+    expect(fieldArray.fields[0].id).toBe(ids[0]);
+    expect(fieldArray.fields[2].id).toBe(ids[2]);
+
+    act(() => {
+      result.current.form.redo();
+    });
+    expect(names(result.current.form)).toEqual(['Apple', 'Cherry']);
+    expect(result.current.form.errors.getPath('items.1.qty')).toBe('Too many');
+    expect(result.current.fieldArray.fields[1].id).toBe(ids[2]);
+  });
+
+  test('tracks the array in changes', () => {
+    const { result } = renderFieldArray();
+
+    act(() => {
+      result.current.fieldArray.remove(2);
+    });
+    expect(result.current.form.changes.getPath('items')).toHaveLength(2);
+
+    act(() => {
+      result.current.fieldArray.append({ name: 'Cherry', qty: 3 });
+    });
+    expect(result.current.form.isDirty.getState()).toBe(false);
+  });
+
+  test('new items are not restored over with shouldUnregister', async () => {
+    let form: any;
+    let fieldArray: any;
+    const Row = ({ index }: { index: number }) => {
+      const { key, ...field } = useField(`items.${index}.name`);
+      return <input {...field} key={key} />;
+    };
+    const Rows = () => {
+      form = useWatcherFormCtx();
+      fieldArray = useFieldArray('items');
+      return fieldArray.fields.map((field: any, index: number) => (
+        <Row key={field.id} index={index} />
+      ));
+    };
+    const Form = () => {
+      const form = useWatcherForm({ initialValues, shouldUnregister: true });
+      return (
+        <WatcherFormProvider form={form}>
+          <Rows />
+        </WatcherFormProvider>
+      );
+    };
+    render(<Form />);
+
+    // the last row's path unregisters when the rows move up
+    await act(async () => {
+      fieldArray.remove(1);
+    });
+    await act(async () => {
+      fieldArray.append({ name: 'Kiwi', qty: 4 });
+    });
+
+    expect(names(form)).toEqual(['Apple', 'Cherry', 'Kiwi']);
+  });
+});
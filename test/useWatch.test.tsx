@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'bun:test';
+import { renderHook, act } from '@testing-library/react';
+import React from 'react';
+import { useWatch } from '../src/useWatch';
+import { useWatcherForm } from '../src/useWatcherForm';
+import { WatcherFormProvider } from '../src/WatcherFormProvider';
+import { useWatcherFormCtx } from '../src/WatcherFormCtx';
+
+const initialValues = { name: 'Jane', items: [{ name: 'Apple' }] };
+
+const FormWrapper = ({ children }: { children: React.ReactNode }) => {
+  const form = useWatcherForm({ initialValues, debug: false });
+  return <WatcherFormProvider form={form}>{children}</WatcherFormProvider>;
+};
+
+describe('useWatch', () => {
+  test('throws error when used outside WatcherFormProvider', () => {
+    expect(() => {
+      renderHook(() => useWatch(({ values }) => values));
+    }).toThrow('useWatch must be used within a WatcherFormContext');
+  });
+
+  test('rerenders only when the selected value changes', () => {
+    let renders = 0;
+    const { result } = renderHook(
+      () => {
+        renders++;
+        return {
+          itemCount: useWatch<any, number>(({ values }) => values.items.length),
+          form: useWatcherFormCtx(),
+        };
+      },
+      { wrapper: FormWrapper }
+    );
+
+    expect(result.current.itemCount).toBe(1);
+    const rendersBefore = renders;
+
+    act(() => {
+      result.current.form.setFieldValue('name', 'John');
+    });
+    expect(renders).toBe(rendersBefore);
+
+    act(() => {
+      result.current.form.setFieldValue('items', [
+        { name: 'Apple' },
+        { name: 'Banana' },
+      ]);
+    });
+    expect(result.current.itemCount).toBe(2);
+  });
+
+  test('selects from errors and touched', () => {
+    const { result } = renderHook(
+      () => ({
+        isNameTouched: useWatch<any, boolean>(({ touched }) => !!touched.name),
+        form: useWatcherFormCtx(),
+      }),
+      { wrapper: FormWrapper }
+    );
+
+    expect(result.current.isNameTouched).toBe(false);
+
+    act(() => {
+      result.current.form.touched.setPath('name', true);
+    });
+
+    expect(result.current.isNameTouched).toBe(true);
+  });
+});
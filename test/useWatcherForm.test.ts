@@ -1,5 +1,5 @@
 import { describe, test, expect, mock, beforeEach, jest } from 'bun:test';
-import { renderHook, act } from '@testing-library/react';
+import { renderHook, act, waitFor } from '@testing-library/react';
 import { useWatcherForm } from '../src/useWatcherForm';
 import type { PRecordErrors } from '../src/types';
 
@@ -168,7 +168,7 @@ describe('useWatcherForm', () => {
       // Changes should NOT be tracked
       expect(result.current.changes.getState()).toEqual({});
 
-      // Call again and confirm 
+      // Call again and confirm
       act(() => {
         result.current.setFieldValue('name', 'Jane Doe #2');
       });
@@ -181,7 +181,6 @@ describe('useWatcherForm', () => {
       expect(result.current.changes.getState()).toEqual({
         name: 'Jane Doe #2',
       });
-
     });
 
     test('skipChanges does not affect other fields changes tracking', () => {
@@ -210,6 +209,61 @@ describe('useWatcherForm', () => {
     });
   });
 
+  describe('dirty tracking', () => {
+    test('removes a field from changes when set back to its initial value', () => {
+      const { result } = renderHook(() => useWatcherForm({ initialValues }));
+
+      act(() => {
+        result.current.setFieldValue('name', 'Jane Doe');
+      });
+      expect(result.current.changes.getState()).toEqual({ name: 'Jane Doe' });
+      expect(result.current.dirty.getPath('name')).toBe(true);
+      expect(result.current.isDirty.getState()).toBe(true);
+
+      act(() => {
+        result.current.setFieldValue('name', 'John Doe');
+      });
+      expect(result.current.changes.getState()).toEqual({});
+      expect(result.current.dirty.getPath('name')).toBeUndefined();
+      expect(result.current.isDirty.getState()).toBe(false);
+    });
+
+    test('compares nested values deeply', () => {
+      const { result } = renderHook(() => useWatcherForm({ initialValues }));
+
+      act(() => {
+        result.current.setFieldValue('address', { ...initialValues.address });
+      });
+      expect(result.current.isDirty.getState()).toBe(false);
+    });
+
+    test('supports a custom equality function', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm({
+          initialValues,
+          isEqual: (a, b) =>
+            String(a).toLowerCase() === String(b).toLowerCase(),
+        })
+      );
+
+      act(() => {
+        result.current.setFieldValue('name', 'JOHN DOE');
+      });
+      expect(result.current.isDirty.getState()).toBe(false);
+    });
+
+    test('reset clears dirty state', () => {
+      const { result } = renderHook(() => useWatcherForm({ initialValues }));
+
+      act(() => {
+        result.current.setFieldValue('name', 'Jane Doe');
+        result.current.reset();
+      });
+      expect(result.current.dirty.getState()).toEqual({});
+      expect(result.current.isDirty.getState()).toBe(false);
+    });
+  });
+
   describe('setFieldValues', () => {
     test('sets multiple field values', () => {
       const { result } = renderHook(() => useWatcherForm({ initialValues }));
@@ -429,68 +483,201 @@ describe('useWatcherForm', () => {
 
       expect(validationResult.hasErrors).toBe(true);
     });
+
+    test('ignores nested results without errors', () => {
+      const validator = jest.fn(() => ({
+        name: undefined,
+        address: { street: undefined, city: null },
+      }));
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, validator })
+      );
+
+      let validationResult: any;
+      act(() => {
+        validationResult = result.current.validateAll();
+      });
+
+      expect(validationResult.hasErrors).toBe(false);
+    });
+
+    test('detects nested errors', () => {
+      const validator = jest.fn(() => ({
+        address: { street: 'Street is required' },
+      }));
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, validator })
+      );
+
+      let validationResult: any;
+      act(() => {
+        validationResult = result.current.validateAll();
+      });
+
+      expect(validationResult.hasErrors).toBe(true);
+    });
+
+    test('updates isValid and errorCount', () => {
+      const validator = jest.fn(() => ({
+        name: 'Name is required',
+        address: { street: 'Street is required', city: undefined },
+      }));
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, validator })
+      );
+
+      expect(result.current.isValid.getState()).toBe(true);
+      expect(result.current.errorCount.getState()).toBe(0);
+
+      act(() => {
+        result.current.validateAll();
+      });
+
+      expect(result.current.isValid.getState()).toBe(false);
+      expect(result.current.errorCount.getState()).toBe(2);
+
+      act(() => {
+        result.current.errors.setState({});
+      });
+
+      expect(result.current.isValid.getState()).toBe(true);
+      expect(result.current.errorCount.getState()).toBe(0);
+    });
   });
 
-  describe('submit', () => {
-    test('successful submission with valid form', async () => {
-      const onSubmit = jest.fn().mockResolvedValue({ success: true });
+  describe('async validation', () => {
+    test('validateField resolves and sets the error', async () => {
+      const validator = jest.fn(async (values: Partial<TestFormData>) => ({
+        name: values.name ? undefined : 'Name is required',
+      }));
       const { result } = renderHook(() =>
-        useWatcherForm({
-          initialValues,
-          onSubmit,
-          validator: () => ({}), // no errors
-        })
+        useWatcherForm({ initialValues: {}, validator })
       );
 
-      let submitResult: any;
+      let fieldError: string | undefined;
       await act(async () => {
-        submitResult = await result.current.submit();
+        fieldError = await result.current.validateField('name');
       });
 
-      expect(onSubmit).toHaveBeenCalledWith(initialValues, {});
-      expect(submitResult).toEqual({ success: true });
-      expect(result.current.isSubmitting.getState()).toBe(false);
+      expect(fieldError).toBe('Name is required');
+      expect(result.current.errors.getPath('name')).toBe('Name is required');
     });
 
-    test('prevents submission when already submitting', async () => {
-      const onSubmit = jest
-        .fn()
-        .mockImplementation(
-          () => new Promise(resolve => setTimeout(resolve, 100))
+    test('ignores a rejected validator on change, but not for validateField', async () => {
+      const unhandled = jest.fn();
+      process.on('unhandledRejection', unhandled);
+      const validator = jest.fn(async () => {
+        throw new Error('Network error');
+      });
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, validator })
+      );
+
+      await act(async () => {
+        result.current.setFieldValue('name', 'Jane Doe');
+        await new Promise(resolve => setTimeout(resolve, 10));
+      });
+      process.off('unhandledRejection', unhandled);
+
+      expect(unhandled).not.toHaveBeenCalled();
+      expect(result.current.isValidating.getState()).toBe(false);
+      await act(async () => {
+        await expect(result.current.validateField('name')).rejects.toThrow(
+          'Network error'
         );
+      });
+    });
+
+    test('tracks isValidating and per-path validating state', async () => {
+      let resolve: (value: any) => void = () => {};
+      const validator = jest.fn(() => new Promise<any>(r => (resolve = r)));
       const { result } = renderHook(() =>
-        useWatcherForm({ initialValues, onSubmit })
+        useWatcherForm({ initialValues, validator })
       );
 
-      // Start first submission
+      let pending: any;
       act(() => {
-        result.current.submit();
+        pending = result.current.validateField('name');
       });
 
-      expect(result.current.isSubmitting.getState()).toBe(true);
+      expect(result.current.isValidating.getState()).toBe(true);
+      expect(result.current.validating.getPath('name')).toBe(true);
 
-      // Try second submission
-      let secondResult: any;
       await act(async () => {
-        secondResult = await result.current.submit();
+        resolve({});
+        await pending;
       });
 
-      expect(secondResult).toBeUndefined();
-      expect(onSubmit).toHaveBeenCalledTimes(1);
+      expect(result.current.isValidating.getState()).toBe(false);
+      expect(result.current.validating.getPath('name')).toBeUndefined();
     });
 
-    test('handles validation errors during submission', async () => {
-      const onValidationErrors = jest.fn();
-      const validationErrors = { name: 'Name is required' };
-      const validator = jest.fn(() => validationErrors);
-      const onSubmit = jest.fn();
+    test('discards stale runs and aborts their signal', async () => {
+      const resolvers: ((value: any) => void)[] = [];
+      const signals: AbortSignal[] = [];
+      const validator = jest.fn(
+        (_values: any, { signal }: { signal: AbortSignal }) => {
+          signals.push(signal);
+          return new Promise<any>(r => resolvers.push(r));
+        }
+      );
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, validator })
+      );
+
+      let first: any;
+      let second: any;
+      act(() => {
+        first = result.current.validateField('name');
+        second = result.current.validateField('name');
+      });
+
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[1].aborted).toBe(false);
+
+      let firstResult: any;
+      await act(async () => {
+        // the newer run resolves first, then the stale one
+        resolvers[1]({ name: 'latest' });
+        resolvers[0]({ name: 'stale' });
+        firstResult = await first;
+        await second;
+      });
+
+      expect(firstResult).toBe('latest');
+      expect(result.current.errors.getPath('name')).toBe('latest');
+    });
+
+    test('validateAll resolves with hasErrors', async () => {
+      const validator = jest.fn(async () => ({ name: 'Name is required' }));
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, validator })
+      );
+
+      let validationResult: any;
+      await act(async () => {
+        validationResult = await result.current.validateAll();
+      });
+
+      expect(validationResult.hasErrors).toBe(true);
+      expect(result.current.errors.getState()).toEqual({
+        name: 'Name is required',
+      });
+    });
 
+    test('submit waits for async validation', async () => {
+      const onSubmit = jest.fn().mockResolvedValue({ success: true });
+      const onValidationErrors = jest.fn();
+      let isValid = false;
+      const validator = jest.fn(async () =>
+        isValid ? {} : { name: 'Name is required' }
+      );
       const { result } = renderHook(() =>
         useWatcherForm({
-          initialValues: {},
+          initialValues,
           onSubmit,
-          validator,
           onValidationErrors,
+          validator,
         })
       );
 
@@ -498,56 +685,321 @@ describe('useWatcherForm', () => {
         await result.current.submit();
       });
 
-      expect(onValidationErrors).toHaveBeenCalledWith(validationErrors);
+      expect(onValidationErrors).toHaveBeenCalledWith({
+        name: 'Name is required',
+      });
       expect(onSubmit).not.toHaveBeenCalled();
+
+      isValid = true;
+      await act(async () => {
+        await result.current.submit();
+      });
+
+      expect(onSubmit).toHaveBeenCalledTimes(1);
     });
+  });
 
-    test('handles missing onSubmit function', async () => {
-      const { result } = renderHook(() => useWatcherForm({ initialValues }));
+  describe('validation modes', () => {
+    const validator = jest.fn((values: Partial<TestFormData>) => ({
+      name: values.name ? undefined : 'Name is required',
+    }));
+
+    test('onBlur mode validates on blur and revalidates on change', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, validator })
+      );
+      const handlers = result.current.getInputEventHandlers('name');
+
+      act(() => handlers.onChange(''));
+      expect(result.current.errors.getPath('name')).toBeUndefined();
+
+      act(() => handlers.onBlur());
+      expect(result.current.errors.getPath('name')).toBe('Name is required');
+
+      act(() => handlers.onChange('Jane'));
+      expect(result.current.errors.getPath('name')).toBeUndefined();
+    });
+
+    test('onChange mode validates from the first keystroke', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, validator, mode: 'onChange' })
+      );
+      const handlers = result.current.getInputEventHandlers('name');
+
+      act(() => handlers.onChange(''));
+      expect(result.current.errors.getPath('name')).toBe('Name is required');
+    });
+
+    test('onSubmit mode only validates on submit', async () => {
+      const onSubmit = jest.fn().mockResolvedValue(undefined);
+      const { result } = renderHook(() =>
+        useWatcherForm({
+          initialValues,
+          validator,
+          onSubmit,
+          mode: 'onSubmit',
+          reValidateMode: 'onSubmit',
+        })
+      );
+      const handlers = result.current.getInputEventHandlers('name');
+
+      act(() => {
+        handlers.onChange('');
+        handlers.onBlur();
+      });
+      expect(result.current.errors.getPath('name')).toBeUndefined();
 
-      let submitResult: any;
       await act(async () => {
-        submitResult = await result.current.submit();
+        await result.current.submit();
       });
+      expect(result.current.errors.getPath('name')).toBe('Name is required');
 
-      expect(submitResult).toBeUndefined();
+      act(() => handlers.onChange('Jane'));
+      expect(result.current.errors.getPath('name')).toBe('Name is required');
     });
 
-    test('updates isSubmitting state correctly', async () => {
-      const onSubmit = jest.fn().mockResolvedValue({ success: true });
+    test('onTouched mode validates on change after the first blur', () => {
       const { result } = renderHook(() =>
-        useWatcherForm({ initialValues, onSubmit })
+        useWatcherForm({
+          initialValues,
+          validator,
+          mode: 'onTouched',
+          reValidateMode: 'onBlur',
+        })
       );
+      const handlers = result.current.getInputEventHandlers('name');
 
-      expect(result.current.isSubmitting.getState()).toBe(false);
+      act(() => handlers.onChange(''));
+      expect(result.current.errors.getPath('name')).toBeUndefined();
 
-      await act(async () => {
-        const submitPromise = result.current.submit();
-        expect(result.current.isSubmitting.getState()).toBe(true);
-        await submitPromise;
+      act(() => handlers.onBlur());
+      expect(result.current.errors.getPath('name')).toBe('Name is required');
+
+      act(() => handlers.onChange('Jane'));
+      expect(result.current.errors.getPath('name')).toBeUndefined();
+    });
+
+    test('reValidateMode onBlur does not revalidate on change', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, validator, reValidateMode: 'onBlur' })
+      );
+      const handlers = result.current.getInputEventHandlers('name');
+
+      act(() => {
+        handlers.onChange('');
+        handlers.onBlur();
       });
+      expect(result.current.errors.getPath('name')).toBe('Name is required');
 
-      expect(result.current.isSubmitting.getState()).toBe(false);
+      act(() => handlers.onChange('Jane'));
+      expect(result.current.errors.getPath('name')).toBe('Name is required');
+
+      act(() => handlers.onBlur());
+      expect(result.current.errors.getPath('name')).toBeUndefined();
+    });
+  });
+
+  describe('dependencies', () => {
+    const passwordValidator = (values: any) => ({
+      confirmPassword:
+        values.confirmPassword === values.password ? undefined : 'Must match',
     });
 
-    test('calls onSubmit with current values and changes', async () => {
-      const onSubmit = jest.fn().mockResolvedValue({ success: true });
+    test('revalidates dependent fields that have an error', () => {
       const { result } = renderHook(() =>
-        useWatcherForm({ initialValues, onSubmit })
+        useWatcherForm<any>({
+          initialValues: { password: 'secret', confirmPassword: 'secre' },
+          validator: passwordValidator,
+          dependencies: { confirmPassword: ['password'] },
+        })
       );
 
-      // Make some changes
       act(() => {
-        result.current.setFieldValue('name', 'Changed Name');
-        result.current.setFieldValue('email', 'changed@example.com');
+        result.current.validateField('confirmPassword');
       });
+      expect(result.current.errors.getPath('confirmPassword')).toBe(
+        'Must match'
+      );
 
-      await act(async () => {
-        await result.current.submit();
+      act(() => {
+        result.current.setFieldValue('password', 'secre');
       });
+      expect(result.current.errors.getPath('confirmPassword')).toBeUndefined();
+    });
 
-      expect(onSubmit).toHaveBeenCalledWith(
-        {
+    test('revalidates touched dependent fields', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm<any>({
+          initialValues: { password: 'secret', confirmPassword: 'secret' },
+          validator: passwordValidator,
+          dependencies: { confirmPassword: ['password'] },
+        })
+      );
+
+      act(() => {
+        result.current.touched.setPath('confirmPassword', true);
+        result.current.setFieldValue('password', 'changed');
+      });
+      expect(result.current.errors.getPath('confirmPassword')).toBe(
+        'Must match'
+      );
+    });
+
+    test('does not validate untouched dependent fields', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm<any>({
+          initialValues: { password: 'secret', confirmPassword: '' },
+          validator: passwordValidator,
+          dependencies: { confirmPassword: ['password'] },
+        })
+      );
+
+      act(() => {
+        result.current.setFieldValue('password', 'changed');
+      });
+      expect(result.current.errors.getPath('confirmPassword')).toBeUndefined();
+    });
+  });
+
+  describe('submit', () => {
+    test('successful submission with valid form', async () => {
+      const onSubmit = jest.fn().mockResolvedValue({ success: true });
+      const { result } = renderHook(() =>
+        useWatcherForm({
+          initialValues,
+          onSubmit,
+          validator: () => ({}), // no errors
+        })
+      );
+
+      let submitResult: any;
+      await act(async () => {
+        submitResult = await result.current.submit();
+      });
+
+      expect(onSubmit).toHaveBeenCalledWith(initialValues, {});
+      expect(submitResult).toEqual({ success: true });
+      expect(result.current.isSubmitting.getState()).toBe(false);
+    });
+
+    test('prevents submission when already submitting', async () => {
+      const onSubmit = jest
+        .fn()
+        .mockImplementation(
+          () => new Promise(resolve => setTimeout(resolve, 100))
+        );
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, onSubmit })
+      );
+
+      // Start first submission
+      act(() => {
+        result.current.submit();
+      });
+
+      expect(result.current.isSubmitting.getState()).toBe(true);
+
+      // Try second submission
+      let secondResult: any;
+      await act(async () => {
+        secondResult = await result.current.submit();
+      });
+
+      expect(secondResult).toBeUndefined();
+      expect(onSubmit).toHaveBeenCalledTimes(1);
+    });
+
+    test('prevents submission when already validating asynchronously', async () => {
+      const onSubmit = jest.fn();
+      const validator = async () => ({});
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, onSubmit, validator })
+      );
+
+      await act(async () => {
+        await Promise.all([result.current.submit(), result.current.submit()]);
+      });
+
+      expect(onSubmit).toHaveBeenCalledTimes(1);
+      expect(result.current.submitCount.getState()).toBe(1);
+
+      // the form is released after validating, so it can be submitted again
+      await act(async () => {
+        await result.current.submit();
+      });
+
+      expect(onSubmit).toHaveBeenCalledTimes(2);
+    });
+
+    test('handles validation errors during submission', async () => {
+      const onValidationErrors = jest.fn();
+      const validationErrors = { name: 'Name is required' };
+      const validator = jest.fn(() => validationErrors);
+      const onSubmit = jest.fn();
+
+      const { result } = renderHook(() =>
+        useWatcherForm({
+          initialValues: {},
+          onSubmit,
+          validator,
+          onValidationErrors,
+        })
+      );
+
+      await act(async () => {
+        await result.current.submit();
+      });
+
+      expect(onValidationErrors).toHaveBeenCalledWith(validationErrors);
+      expect(onSubmit).not.toHaveBeenCalled();
+    });
+
+    test('handles missing onSubmit function', async () => {
+      const { result } = renderHook(() => useWatcherForm({ initialValues }));
+
+      let submitResult: any;
+      await act(async () => {
+        submitResult = await result.current.submit();
+      });
+
+      expect(submitResult).toBeUndefined();
+    });
+
+    test('updates isSubmitting state correctly', async () => {
+      const onSubmit = jest.fn().mockResolvedValue({ success: true });
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, onSubmit })
+      );
+
+      expect(result.current.isSubmitting.getState()).toBe(false);
+
+      await act(async () => {
+        const submitPromise = result.current.submit();
+        expect(result.current.isSubmitting.getState()).toBe(true);
+        await submitPromise;
+      });
+
+      expect(result.current.isSubmitting.getState()).toBe(false);
+    });
+
+    test('calls onSubmit with current values and changes', async () => {
+      const onSubmit = jest.fn().mockResolvedValue({ success: true });
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, onSubmit })
+      );
+
+      // Make some changes
+      act(() => {
+        result.current.setFieldValue('name', 'Changed Name');
+        result.current.setFieldValue('email', 'changed@example.com');
+      });
+
+      await act(async () => {
+        await result.current.submit();
+      });
+
+      expect(onSubmit).toHaveBeenCalledWith(
+        {
           ...initialValues,
           name: 'Changed Name',
           email: 'changed@example.com',
@@ -557,6 +1009,724 @@ describe('useWatcherForm', () => {
     });
   });
 
+  describe('submit lifecycle', () => {
+    test('calls onSubmitSuccess and onSubmitSettled', async () => {
+      const onSubmit = jest.fn().mockResolvedValue({ id: 1 });
+      const onSubmitSuccess = jest.fn();
+      const onSubmitSettled = jest.fn();
+      const { result } = renderHook(() =>
+        useWatcherForm({
+          initialValues,
+          onSubmit,
+          onSubmitSuccess,
+          onSubmitSettled,
+        })
+      );
+
+      await act(async () => {
+        await result.current.submit();
+      });
+
+      expect(onSubmitSuccess).toHaveBeenCalledWith({ id: 1 }, initialValues);
+      expect(onSubmitSettled).toHaveBeenCalledWith(
+        { id: 1 },
+        undefined,
+        initialValues
+      );
+      expect(result.current.submitCount.getState()).toBe(1);
+      expect(result.current.isSubmitted.getState()).toBe(true);
+      expect(result.current.isSubmitSuccessful.getState()).toBe(true);
+      expect(result.current.lastSubmitResult.getState()).toEqual({ id: 1 });
+    });
+
+    test('calls onSubmitError and releases isSubmitting when onSubmit throws', async () => {
+      const error = new Error('Network error');
+      const onSubmit = jest.fn().mockRejectedValue(error);
+      const onSubmitError = jest.fn();
+      const onSubmitSettled = jest.fn();
+      const { result } = renderHook(() =>
+        useWatcherForm({
+          initialValues,
+          onSubmit,
+          onSubmitError,
+          onSubmitSettled,
+        })
+      );
+
+      await act(async () => {
+        await result.current.submit();
+      });
+
+      expect(onSubmitError).toHaveBeenCalledWith(error, initialValues);
+      expect(onSubmitSettled).toHaveBeenCalledWith(
+        undefined,
+        error,
+        initialValues
+      );
+      expect(result.current.isSubmitting.getState()).toBe(false);
+      expect(result.current.isSubmitSuccessful.getState()).toBe(false);
+      expect(result.current.lastSubmitError.getState()).toBe(error);
+    });
+
+    test('rethrows when there is no onSubmitError', async () => {
+      const onSubmit = jest.fn().mockRejectedValue(new Error('Oops'));
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, onSubmit })
+      );
+
+      let thrown: any;
+      await act(async () => {
+        try {
+          await result.current.submit();
+        } catch (err) {
+          thrown = err;
+        }
+      });
+
+      expect(thrown?.message).toBe('Oops');
+      expect(result.current.isSubmitting.getState()).toBe(false);
+    });
+
+    test('counts submissions blocked by validation', async () => {
+      const onSubmit = jest.fn();
+      const { result } = renderHook(() =>
+        useWatcherForm({
+          initialValues,
+          onSubmit,
+          validator: () => ({ name: 'Name is required' }),
+        })
+      );
+
+      await act(async () => {
+        await result.current.submit();
+      });
+
+      expect(result.current.submitCount.getState()).toBe(1);
+      expect(result.current.isSubmitted.getState()).toBe(true);
+      expect(result.current.isSubmitSuccessful.getState()).toBe(false);
+    });
+
+    test('reset clears the submit state', async () => {
+      const onSubmit = jest.fn().mockResolvedValue('ok');
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, onSubmit })
+      );
+
+      await act(async () => {
+        await result.current.submit();
+      });
+      act(() => {
+        result.current.reset();
+      });
+
+      expect(result.current.submitCount.getState()).toBe(0);
+      expect(result.current.isSubmitted.getState()).toBe(false);
+      expect(result.current.lastSubmitResult.getState()).toBeUndefined();
+    });
+  });
+
+  describe('server errors', () => {
+    test('sets server errors from an object', () => {
+      const { result } = renderHook(() => useWatcherForm({ initialValues }));
+
+      act(() => {
+        result.current.setServerErrors({ email: 'already registered' });
+      });
+
+      expect(result.current.serverErrors.getPath('email')).toBe(
+        'already registered'
+      );
+      expect(result.current.errors.getState()).toEqual({});
+    });
+
+    test('sets server errors from a list, with a form error', () => {
+      const { result } = renderHook(() => useWatcherForm({ initialValues }));
+
+      act(() => {
+        result.current.setServerErrors([
+          { path: 'address.zip', message: 'Unknown zip code' },
+          { message: 'Please try again' },
+        ]);
+      });
+
+      expect(result.current.serverErrors.getPath('address.zip')).toBe(
+        'Unknown zip code'
+      );
+      expect(result.current.formError.getState()).toBe('Please try again');
+    });
+
+    test('server errors survive validateAll', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, validator: () => ({}) })
+      );
+
+      act(() => {
+        result.current.setServerErrors({ email: 'already registered' });
+        result.current.validateAll();
+      });
+
+      expect(result.current.serverErrors.getPath('email')).toBe(
+        'already registered'
+      );
+    });
+
+    test('clears the server error when the field is edited', () => {
+      const { result } = renderHook(() => useWatcherForm({ initialValues }));
+
+      act(() => {
+        result.current.setServerErrors({
+          email: 'already registered',
+          name: 'not allowed',
+        });
+        result.current.setFieldValue('email', 'new@example.com');
+      });
+
+      expect(result.current.serverErrors.getPath('email')).toBeUndefined();
+      expect(result.current.serverErrors.getPath('name')).toBe('not allowed');
+    });
+
+    test('sets server errors returned from onSubmit', async () => {
+      const onSubmitSuccess = jest.fn();
+      const onSubmit = jest.fn().mockResolvedValue({
+        serverErrors: [{ path: 'email', message: 'already registered' }],
+      });
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, onSubmit, onSubmitSuccess })
+      );
+
+      await act(async () => {
+        await result.current.submit();
+      });
+
+      expect(result.current.serverErrors.getPath('email')).toBe(
+        'already registered'
+      );
+      expect(result.current.isSubmitSuccessful.getState()).toBe(false);
+      expect(onSubmitSuccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('watch', () => {
+    test('calls the callback when the value at the path changes', () => {
+      const callback = jest.fn();
+      const { result } = renderHook(() => useWatcherForm({ initialValues }));
+
+      let unsubscribe: () => void;
+      act(() => {
+        unsubscribe = result.current.watch('email', callback);
+      });
+      act(() => {
+        result.current.setFieldValue('name', 'Jane');
+      });
+      expect(callback).not.toHaveBeenCalled();
+
+      act(() => {
+        result.current.setFieldValue('email', 'jane@example.com');
+      });
+      expect(callback).toHaveBeenCalledWith(
+        'jane@example.com',
+        'john.doe@example.com'
+      );
+
+      act(() => {
+        unsubscribe();
+        result.current.setFieldValue('email', 'jim@example.com');
+      });
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test('watches several paths, and other sources', () => {
+      const callback = jest.fn();
+      const { result } = renderHook(() => useWatcherForm({ initialValues }));
+
+      act(() => {
+        result.current.watch(['name', 'email'], callback, {
+          source: 'touched',
+        });
+      });
+      act(() => {
+        result.current.touched.setPath('email', true);
+      });
+
+      expect(callback).toHaveBeenCalledWith(
+        [undefined, true],
+        [undefined, undefined]
+      );
+    });
+  });
+
+  describe('computed', () => {
+    const orderValues = {
+      items: [
+        { qty: 2, price: 5, lineTotal: 0 },
+        { qty: 1, price: 3, lineTotal: 0 },
+      ],
+      grandTotal: 0,
+    };
+    const computed = {
+      'items.*.lineTotal': (values: any, { indexes: [i] }: any) =>
+        values.items[i].qty * values.items[i].price,
+      grandTotal: (values: any) =>
+        values.items.reduce(
+          (sum: number, item: any) => sum + item.lineTotal,
+          0
+        ),
+    };
+
+    test('computes the derived fields of the initial values', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues: orderValues, computed })
+      );
+
+      expect(result.current.values.getPath('items.0.lineTotal')).toBe(10);
+      expect(result.current.values.getPath('grandTotal')).toBe(13);
+    });
+
+    test('recomputes when the inputs change, without marking changes', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues: orderValues, computed })
+      );
+      const key = result.current.keys.getPath('grandTotal') ?? 0;
+
+      act(() => {
+        result.current.setFieldValue('items.1.qty', 4);
+      });
+
+      expect(result.current.values.getPath('items.1.lineTotal')).toBe(12);
+      expect(result.current.values.getPath('grandTotal')).toBe(22);
+      expect(result.current.changes.getPath('items.1.qty')).toBe(4);
+      expect(
+        result.current.changes.getPath('items.1.lineTotal')
+      ).toBeUndefined();
+      expect(result.current.changes.getPath('grandTotal')).toBeUndefined();
+      expect(result.current.keys.getPath('grandTotal')).toBe(key + 1);
+    });
+  });
+
+  describe('conditions', () => {
+    const accountValues = { accountType: 'personal', companyName: '' };
+    const conditions = {
+      companyName: (values: any) => values.accountType === 'business',
+    };
+
+    test('tracks visibility as the values change', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues: accountValues, conditions })
+      );
+
+      expect(result.current.visibility.getPath('companyName')).toBe(false);
+
+      act(() => {
+        result.current.setFieldValue('accountType', 'business');
+      });
+
+      expect(result.current.visibility.getPath('companyName')).toBe(true);
+    });
+
+    test('validateAll skips hidden fields', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm({
+          initialValues: accountValues,
+          conditions,
+          validator: values => ({
+            companyName: values.companyName ? undefined : 'Required',
+          }),
+        })
+      );
+
+      act(() => {
+        expect(result.current.validateAll()).toEqual({
+          errors: {},
+          hasErrors: false,
+        });
+      });
+
+      act(() => {
+        result.current.setFieldValue('accountType', 'business', {
+          skipValidation: true,
+        });
+      });
+      act(() => {
+        expect(result.current.validateAll()).toMatchObject({
+          hasErrors: true,
+        });
+      });
+      expect(result.current.errors.getPath('companyName')).toBe('Required');
+    });
+
+    test('shouldStripHidden removes hidden fields from the submitted values', async () => {
+      const onSubmit = jest.fn().mockResolvedValue(undefined);
+      const { result } = renderHook(() =>
+        useWatcherForm({
+          initialValues: accountValues,
+          conditions,
+          shouldStripHidden: true,
+          onSubmit,
+        })
+      );
+
+      act(() => {
+        result.current.setFieldValue('companyName', 'Acme');
+      });
+      await act(async () => {
+        await result.current.submit();
+      });
+
+      expect(onSubmit).toHaveBeenCalledWith({ accountType: 'personal' }, {});
+    });
+  });
+
+  describe('history', () => {
+    test('undoes and redoes edits, keeping changes consistent', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, history: true })
+      );
+      const key = result.current.keys.getPath('name') ?? 0;
+
+      expect(result.current.canUndo.getState()).toBe(false);
+
+      act(() => {
+        result.current.setFieldValue('name', 'Jane Doe');
+      });
+      expect(result.current.canUndo.getState()).toBe(true);
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.values.getPath('name')).toBe('John Doe');
+      expect(result.current.changes.getPath('name')).toBeUndefined();
+      expect(result.current.keys.getPath('name')).toBeGreaterThan(key);
+      expect(result.current.canUndo.getState()).toBe(false);
+      expect(result.current.canRedo.getState()).toBe(true);
+
+      act(() => {
+        result.current.redo();
+      });
+      expect(result.current.values.getPath('name')).toBe('Jane Doe');
+      expect(result.current.changes.getPath('name')).toBe('Jane Doe');
+      expect(result.current.canRedo.getState()).toBe(false);
+    });
+
+    test('merges edits to the same field within coalesceMs', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, history: { coalesceMs: 500 } })
+      );
+
+      act(() => {
+        result.current.setFieldValue('name', 'J', { skipIncrementKey: true });
+        result.current.setFieldValue('name', 'Ja', { skipIncrementKey: true });
+      });
+      now.mockReturnValue(2000);
+      act(() => {
+        result.current.setFieldValue('name', 'Jan', { skipIncrementKey: true });
+      });
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.values.getPath('name')).toBe('Ja');
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.values.getPath('name')).toBe('John Doe');
+      now.mockRestore();
+    });
+
+    test('undoes setFieldValues as one step', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, history: true })
+      );
+
+      act(() => {
+        result.current.setFieldValues([
+          ['name', 'Jane Doe'],
+          ['age', 31],
+        ]);
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.values.getState()).toEqual(initialValues);
+      expect(result.current.canUndo.getState()).toBe(false);
+    });
+
+    test('keeps at most limit steps, and a new edit clears redo', () => {
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, history: { limit: 2 } })
+      );
+
+      act(() => {
+        result.current.setFieldValue('name', 'A');
+        result.current.setFieldValue('email', 'a@example.com');
+        result.current.setFieldValue('age', 1);
+      });
+      act(() => {
+        result.current.undo();
+        result.current.undo();
+        result.current.undo();
+      });
+      expect(result.current.values.getPath('name')).toBe('A');
+      expect(result.current.values.getPath('email')).toBe(initialValues.email);
+
+      act(() => {
+        result.current.setFieldValue('isAdmin', true);
+      });
+      expect(result.current.canRedo.getState()).toBe(false);
+    });
+
+    test('uses the latest history option', () => {
+      const { result, rerender } = renderHook(
+        ({ history }: { history: boolean }) =>
+          useWatcherForm({ initialValues, history }),
+        { initialProps: { history: false } }
+      );
+
+      rerender({ history: true });
+      act(() => {
+        result.current.setFieldValue('name', 'Jane Doe');
+      });
+
+      expect(result.current.canUndo.getState()).toBe(true);
+    });
+
+    test('is not recorded unless enabled', () => {
+      const { result } = renderHook(() => useWatcherForm({ initialValues }));
+
+      act(() => {
+        result.current.setFieldValue('name', 'Jane Doe');
+        result.current.undo();
+      });
+
+      expect(result.current.values.getPath('name')).toBe('Jane Doe');
+      expect(result.current.canUndo.getState()).toBe(false);
+    });
+  });
+
+  describe('persist', () => {
+    const createStorage = () => {
+      const items = new Map<string, string>();
+      return {
+        items,
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+          items.set(key, value);
+        },
+        removeItem: (key: string) => {
+          items.delete(key);
+        },
+      };
+    };
+
+    test('saves the edits after debounceMs', async () => {
+      const storage = createStorage();
+      const { result } = renderHook(() =>
+        useWatcherForm({
+          initialValues,
+          persist: { key: 'user', storage, debounceMs: 10 },
+        })
+      );
+
+      act(() => {
+        result.current.setFieldValue('name', 'Jane Doe');
+      });
+      expect(storage.items.has('user')).toBe(false);
+
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      });
+      expect(JSON.parse(storage.items.get('user')!)).toMatchObject({
+        version: 0,
+        changes: { name: 'Jane Doe' },
+      });
+    });
+
+    test('restores the draft on mount, rebased onto the initial values', () => {
+      const storage = createStorage();
+      storage.setItem(
+        'user',
+        JSON.stringify({
+          version: 0,
+          values: { ...initialValues, name: 'Jane Doe', age: 29 },
+          changes: { name: 'Jane Doe' },
+        })
+      );
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, persist: { key: 'user', storage } })
+      );
+
+      expect(result.current.values.getPath('name')).toBe('Jane Doe');
+      // only the edits are restored
+      expect(result.current.values.getPath('age')).toBe(30);
+      expect(result.current.changes.getState()).toEqual({ name: 'Jane Doe' });
+      expect(result.current.keys.getPath('name')).toBe(1);
+    });
+
+    test('removes the draft after a successful submit', async () => {
+      const storage = createStorage();
+      const { result } = renderHook(() =>
+        useWatcherForm({
+          initialValues,
+          persist: { key: 'user', storage, debounceMs: 0 },
+          onSubmit: async () => {},
+        })
+      );
+
+      act(() => {
+        result.current.setFieldValue('name', 'Jane Doe');
+      });
+      await act(async () => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      });
+      expect(storage.items.has('user')).toBe(true);
+
+      await act(async () => {
+        await result.current.submit();
+      });
+      expect(storage.items.has('user')).toBe(false);
+    });
+
+    test('removes the draft on reset', () => {
+      const storage = createStorage();
+      storage.setItem(
+        'user',
+        JSON.stringify({
+          version: 0,
+          values: { name: 'Jane Doe' },
+          changes: { name: 'Jane Doe' },
+        })
+      );
+      const { result } = renderHook(() =>
+        useWatcherForm({ initialValues, persist: { key: 'user', storage } })
+      );
+
+      act(() => {
+        result.current.reset();
+      });
+      expect(storage.items.has('user')).toBe(false);
+    });
+  });
+
+  describe('tabSync', () => {
+    // each tab can load a different version of the record, so that the
+    // tabs start out diverged
+    const renderTabs = (
+      id: string,
+      initialValuesA = initialValues,
+      initialValuesB = initialValues
+    ) => [
+      renderHook(() =>
+        useWatcherForm({ initialValues: initialValuesA, tabSync: { id } })
+      ).result,
+      renderHook(() =>
+        useWatcherForm({ initialValues: initialValuesB, tabSync: { id } })
+      ).result,
+    ];
+
+    test('applies edits from other tabs without adding them to changes', async () => {
+      const [tabA, tabB] = renderTabs('apply');
+      const key = tabB.current.keys.getPath('name') ?? 0;
+
+      act(() => {
+        tabA.current.setFieldValue('name', 'Jane Doe');
+      });
+
+      await waitFor(() =>
+        expect(tabB.current.values.getPath('name')).toBe('Jane Doe')
+      );
+      expect(tabB.current.changes.getPath('name')).toBeUndefined();
+      expect(tabB.current.keys.getPath('name')).toBe(key + 1);
+      expect(tabA.current.changes.getPath('name')).toBe('Jane Doe');
+    });
+
+    test('keeps an earlier change to the field in changes', async () => {
+      const [tabA, tabB] = renderTabs('keep-changes');
+
+      act(() => {
+        tabA.current.setFieldValue('name', 'Jane Doe');
+      });
+      await waitFor(() =>
+        expect(tabB.current.values.getPath('name')).toBe('Jane Doe')
+      );
+      act(() => {
+        tabB.current.setFieldValue('name', 'Jane Smith');
+      });
+
+      await waitFor(() =>
+        expect(tabA.current.values.getPath('name')).toBe('Jane Smith')
+      );
+      expect(tabA.current.changes.getPath('name')).toBe('Jane Smith');
+      expect(tabA.current.dirty.getPath('name')).toBe(true);
+      expect(tabA.current.isDirty.getState()).toBe(true);
+    });
+
+    test('shares edits made with skipChanges', async () => {
+      const [tabA, tabB] = renderTabs('skip-changes');
+
+      act(() => {
+        tabA.current.setFieldValue('name', 'Jane Doe', { skipChanges: true });
+      });
+      await waitFor(() =>
+        expect(tabB.current.values.getPath('name')).toBe('Jane Doe')
+      );
+
+      act(() => {
+        tabA.current.setFieldValue('name', 'Jane Smith');
+      });
+      await waitFor(() =>
+        expect(tabB.current.values.getPath('name')).toBe('Jane Smith')
+      );
+      expect(tabB.current.conflicts.getPath('name')).toBeUndefined();
+    });
+
+    test('adds edits to the same field in both tabs to conflicts', async () => {
+      const [tabA, tabB] = renderTabs(
+        'conflict',
+        { ...initialValues, name: 'Jane Doe' },
+        { ...initialValues, name: 'Johnny' }
+      );
+      act(() => {
+        tabA.current.setFieldValue('email', 'jane@example.com');
+        tabB.current.setFieldValue('name', 'Johnny Doe');
+      });
+
+      await waitFor(() =>
+        expect(tabA.current.conflicts.getPath('name')).toEqual({
+          local: 'Jane Doe',
+          remote: 'Johnny Doe',
+        })
+      );
+      expect(tabA.current.values.getPath('name')).toBe('Jane Doe');
+      await waitFor(() =>
+        expect(tabB.current.values.getPath('email')).toBe('jane@example.com')
+      );
+    });
+
+    test('resolveConflict applies the chosen value in both tabs', async () => {
+      const [tabA, tabB] = renderTabs(
+        'resolve',
+        { ...initialValues, name: 'Jane Doe' },
+        { ...initialValues, name: 'Johnny' }
+      );
+      act(() => {
+        tabB.current.setFieldValue('name', 'Johnny Doe');
+      });
+      await waitFor(() =>
+        expect(tabA.current.conflicts.getPath('name')).toBeDefined()
+      );
+
+      act(() => {
+        tabA.current.resolveConflict('name', 'local');
+      });
+
+      expect(tabA.current.conflicts.getPath('name')).toBeUndefined();
+      await waitFor(() =>
+        expect(tabB.current.values.getPath('name')).toBe('Jane Doe')
+      );
+    });
+  });
+
   describe('reset', () => {
     test('resets to initial values', () => {
       const { result } = renderHook(() => useWatcherForm({ initialValues }));
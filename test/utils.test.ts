@@ -0,0 +1,33 @@
+import { describe, test, expect } from 'bun:test';
+import { isDeepEqual } from '../src/utils';
+
+describe('isDeepEqual', () => {
+  test('compares arrays and plain objects by their contents', () => {
+    expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(isDeepEqual({ a: [1, 2] }, { a: [1, 3] })).toBe(false);
+    expect(isDeepEqual([], {})).toBe(false);
+  });
+
+  test('compares Dates by time', () => {
+    expect(isDeepEqual(new Date(0), new Date(0))).toBe(true);
+    expect(isDeepEqual(new Date(0), new Date(1))).toBe(false);
+    expect(isDeepEqual(new Date(), {})).toBe(false);
+  });
+
+  test('only treats other objects as equal to themselves', () => {
+    const file = new File(['a'], 'a.txt');
+    expect(isDeepEqual(new Map([[1, 2]]), new Map())).toBe(false);
+    expect(isDeepEqual(new Set([1]), new Set([2]))).toBe(false);
+    expect(isDeepEqual(new Set(), new Set())).toBe(false);
+    expect(isDeepEqual(file, new File(['b'], 'b.txt'))).toBe(false);
+    expect(isDeepEqual([file], [file])).toBe(true);
+    expect(isDeepEqual(new Blob(['a']), {})).toBe(false);
+  });
+
+  test('does not compare class instances with plain objects', () => {
+    class Point {
+      constructor(public x: number) {}
+    }
+    expect(isDeepEqual(new Point(1), { x: 1 })).toBe(false);
+  });
+});